@@ -1,4 +1,7 @@
 export const DEFAULT_WEEK_FORMAT = "gggg-[W]ww";
+export const DEFAULT_MONTH_FORMAT = "YYYY-MM";
+export const DEFAULT_QUARTER_FORMAT = "YYYY-[Q]Q";
+export const DEFAULT_YEAR_FORMAT = "YYYY";
 export const DEFAULT_WORDS_PER_DOT = 250;
 export const VIEW_TYPE_CALENDAR = "calendar";
 
@@ -1,11 +1,108 @@
+import { Notice } from "obsidian";
 import type { TFile, moment } from "obsidian";
 import {
   createDailyNote,
   getDailyNoteSettings,
+  getDateFromFile,
 } from "obsidian-daily-notes-interface";
+import { get } from "svelte/store";
 
 import type { ISettings } from "src/settings";
+import {
+  applyRolloverToSource,
+  findOpenTaskBlocks,
+  insertTasksUnderHeading,
+} from "src/taskRollover";
 import { createConfirmationDialog } from "src/ui/modal";
+import { findOnThisDay, type OnThisDayEntry } from "src/ui/onThisDay";
+import { getTaskCounts } from "src/ui/noteMetrics";
+import { dailyNotes } from "src/ui/stores";
+
+export type OnThisDayNote = OnThisDayEntry & { file: TFile };
+
+/**
+ * Daily notes from this date (and optionally this ISO week) in earlier years.
+ */
+export function getOnThisDayNotes(
+  notes: Record<string, TFile>,
+  today: moment.Moment,
+  includeSameWeek: boolean
+): OnThisDayNote[] {
+  const filesByDateStr = new Map<string, TFile>();
+  for (const file of Object.values(notes ?? {})) {
+    const date = file ? getDateFromFile(file, "day") : null;
+    if (date) {
+      filesByDateStr.set(date.format("YYYY-MM-DD"), file);
+    }
+  }
+
+  return findOnThisDay(today.format("YYYY-MM-DD"), Array.from(filesByDateStr.keys()), {
+    includeSameWeek,
+  }).flatMap((entry) => {
+    const file = filesByDateStr.get(entry.dateStr);
+    return file ? [{ ...entry, file }] : [];
+  });
+}
+
+/**
+ * Most recent daily note before `date` that still has unfinished tasks that can be
+ * rolled over. Notes whose only open tasks can't be (e.g. inside a blockquote or
+ * callout) are skipped rather than ending the search.
+ */
+async function findPreviousNoteWithOpenTasks(date: moment.Moment): Promise<TFile | null> {
+  const candidates = Object.values(get(dailyNotes) ?? {})
+    .map((file) => ({ file, date: getDateFromFile(file, "day") }))
+    .filter((c) => !!c.date && c.date.isBefore(date, "day"))
+    .sort((a, b) => (b.date?.valueOf() ?? 0) - (a.date?.valueOf() ?? 0));
+
+  for (const { file } of candidates) {
+    const counts = await getTaskCounts(file);
+    if (
+      counts.open + counts.inProgress > 0 &&
+      findOpenTaskBlocks(await window.app.vault.cachedRead(file)).length
+    ) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Copy/move unfinished tasks from the most recent earlier daily note into `dailyNote`.
+ */
+export async function rolloverOpenTasks(
+  dailyNote: TFile,
+  date: moment.Moment,
+  settings: ISettings
+): Promise<number> {
+  const { vault } = window.app;
+
+  const source = await findPreviousNoteWithOpenTasks(date);
+  if (!source) {
+    return 0;
+  }
+
+  const blocks = findOpenTaskBlocks(await vault.read(source));
+  if (!blocks.length) {
+    return 0;
+  }
+
+  await vault.process(dailyNote, (text) =>
+    insertTasksUnderHeading(
+      text,
+      settings.rolloverTasksHeading,
+      blocks.flatMap((b) => b.lines)
+    )
+  );
+
+  // Re-detect against the current contents so a concurrent edit can't shift line numbers.
+  await vault.process(source, (text) =>
+    applyRolloverToSource(text, findOpenTaskBlocks(text), settings.rolloverTasksMode)
+  );
+
+  new Notice(`Rolled over ${blocks.length} unfinished task(s) from ${source.basename}.`);
+  return blocks.length;
+}
 
 /**
  * Create a Daily Note for a given date.
@@ -22,6 +119,15 @@ export async function tryToCreateDailyNote(
 
   const createFile = async () => {
     const dailyNote = await createDailyNote(date);
+    if (settings.rolloverTasksEnabled && date.isSame(window.moment(), "day")) {
+      try {
+        await rolloverOpenTasks(dailyNote, date, settings);
+      } catch (err) {
+        console.error("[Calendar] Failed to roll over unfinished tasks", err);
+        new Notice("Failed to roll over unfinished tasks.");
+      }
+    }
+
     const leaf = inNewSplit
       ? workspace.getLeaf(true)
       : workspace.getLeaf(false);
@@ -0,0 +1,159 @@
+import { Notice, normalizePath, TFile } from "obsidian";
+import type { moment } from "obsidian";
+import { getDateFromFile, getWeeklyNote } from "obsidian-daily-notes-interface";
+import { get } from "svelte/store";
+
+import { createLlmProvider, getActiveLlmConfig } from "src/llm";
+import { ensureParentFolderExists } from "src/io/periodicNotes";
+import { tryToCreateWeeklyNote } from "src/io/weeklyNotes";
+import {
+  normalizeDigestDestination,
+  runDigestMapReduce,
+  upsertMarkdownSection,
+  type DigestProgress,
+} from "src/ollama/digest";
+import { prepareNoteTextForOllama } from "src/ollama/title";
+import type { ISettings } from "src/settings";
+import { weeklyNotes } from "src/ui/stores";
+import type { ListGroupPeriod } from "src/ui/listViewModel";
+
+const PERIOD_LABEL_FORMATS: Record<ListGroupPeriod["granularity"], string> = {
+  // Locale week, matching weekly notes
+  week: "gggg-[W]ww",
+  month: "YYYY-MM",
+  quarter: "YYYY-[Q]Q",
+  year: "YYYY",
+};
+
+/**
+ * Label used in prompts and summary note names, e.g. `2025-W24` or `2025-06`.
+ */
+export function formatDigestPeriodLabel(
+  granularity: ListGroupPeriod["granularity"],
+  date: moment.Moment
+): string {
+  return date.format(PERIOD_LABEL_FORMATS[granularity]);
+}
+
+function formatProgress(periodLabel: string, progress: DigestProgress): string {
+  return progress.stage === "map"
+    ? `Summarising ${periodLabel}: part ${Math.min(progress.done + 1, progress.total)} of ${progress.total}…`
+    : `Summarising ${periodLabel}: writing digest…`;
+}
+
+async function writeDigestSection(file: TFile, heading: string, digest: string): Promise<void> {
+  await window.app.vault.process(file, (text) => upsertMarkdownSection(text, heading, digest));
+}
+
+async function writeSummaryNote(
+  periodLabel: string,
+  heading: string,
+  digest: string,
+  settings: ISettings
+): Promise<TFile> {
+  const { vault } = window.app;
+  const folder = (settings.digestFolder ?? "").trim();
+  const filename = `Digest ${periodLabel}.md`;
+  const path = normalizePath(folder ? `${folder}/${filename}` : filename);
+
+  const existing = vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) {
+    await writeDigestSection(existing, heading, digest);
+    return existing;
+  }
+
+  await ensureParentFolderExists(path);
+  return vault.create(path, upsertMarkdownSection("", heading, digest));
+}
+
+/**
+ * Summarise the given daily notes with the configured model and write the digest under
+ * the digest heading: into the weekly note when summarising a week (and that destination
+ * is selected), otherwise into a `Digest <period>` summary note.
+ */
+export async function summariseDailyNotes(args: {
+  files: TFile[];
+  periodLabel: string;
+  // Set when the period is a (locale) week, so the digest can go to its weekly note
+  week?: moment.Moment;
+  settings: ISettings;
+}): Promise<void> {
+  const { files, periodLabel, week, settings } = args;
+  const { vault, workspace } = window.app;
+
+  if (!settings.ollamaTitlesEnabled) {
+    new Notice("Enable AI titles in the calendar's list menu first.");
+    return;
+  }
+
+  const maxChars = settings.ollamaMaxChars ?? 8000;
+  const heading = (settings.digestHeading ?? "").trim() || "## Digest";
+
+  const dated = files
+    .map((file) => ({ file, date: getDateFromFile(file, "day") }))
+    .filter((d): d is { file: TFile; date: moment.Moment } => !!d.date)
+    .sort((a, b) => a.date.valueOf() - b.date.valueOf());
+
+  const notice = new Notice(`Summarising ${periodLabel}…`, 0);
+  try {
+    const sources = [];
+    for (const { file, date } of dated) {
+      sources.push({
+        label: date.format("YYYY-MM-DD"),
+        text: prepareNoteTextForOllama(await vault.cachedRead(file), maxChars),
+      });
+    }
+
+    const provider = createLlmProvider(settings);
+    const { model } = getActiveLlmConfig(settings);
+
+    const digest = await runDigestMapReduce({
+      periodLabel,
+      sources,
+      maxChars,
+      generate: (prompt) => provider.generate({ model, prompt, temperature: 0.3, maxTokens: 600 }),
+      onProgress: (progress) => notice.setMessage(formatProgress(periodLabel, progress)),
+    });
+
+    if (week && normalizeDigestDestination(settings.digestDestination) === "weekly-note") {
+      const weeklyNote = getWeeklyNote(week, get(weeklyNotes));
+      if (weeklyNote) {
+        await writeDigestSection(weeklyNote, heading, digest);
+        await workspace.getLeaf(false).openFile(weeklyNote, { active: true });
+      } else {
+        await tryToCreateWeeklyNote(
+          week.clone().startOf("week"),
+          false,
+          settings,
+          (file) => {
+            void writeDigestSection(file, heading, digest).catch((err) => {
+              console.error("[Calendar] Failed to write digest", err);
+              new Notice("Failed to write the digest to the weekly note.");
+            });
+          },
+          // Weekly note declined: keep the digest in a summary note instead of losing it.
+          () => {
+            void writeSummaryNote(periodLabel, heading, digest, settings)
+              .then(async (file) => {
+                new Notice(`Weekly note not created; the digest was saved to ${file.path}.`);
+                await workspace.getLeaf(false).openFile(file, { active: true });
+              })
+              .catch((err) => {
+                console.error("[Calendar] Failed to write digest", err);
+                new Notice("Failed to save the digest.");
+              });
+          }
+        );
+      }
+    } else {
+      const file = await writeSummaryNote(periodLabel, heading, digest, settings);
+      await workspace.getLeaf(false).openFile(file, { active: true });
+    }
+  } catch (err) {
+    console.error("[Calendar] Failed to summarise period", err);
+    const msg = err instanceof Error ? err.message : String(err);
+    new Notice(`Failed to summarise ${periodLabel}: ${msg}`);
+  } finally {
+    notice.hide();
+  }
+}
@@ -0,0 +1,196 @@
+import { Notice } from "obsidian";
+import type { TFile } from "obsidian";
+import { get } from "svelte/store";
+
+import { createOllamaClient } from "src/ollama/client";
+import {
+  isEmbeddingEntryFresh,
+  rankBySimilarity,
+  type EmbeddingIndex,
+  type EmbeddingIndexEntry,
+  type SimilarDay,
+} from "src/ollama/embeddings";
+import { prepareNoteTextForOllama } from "src/ollama/title";
+import { hashString } from "src/ollama/titleTemplate";
+import { defaultSettings, type ISettings } from "src/settings";
+import { embeddingIndex } from "src/ui/stores";
+
+type EmbeddingSettings = Pick<
+  ISettings,
+  "llmProviders" | "ollamaMaxChars" | "ollamaRequestTimeoutMs" | "embeddingModel"
+>;
+
+// Notes sent to `/api/embed` per request
+const EMBED_BATCH_SIZE = 8;
+
+let runningUpdate: Promise<number> | null = null;
+
+export function getEmbeddingModel(settings: Pick<ISettings, "embeddingModel">): string {
+  return (settings.embeddingModel ?? "").trim() || defaultSettings.embeddingModel;
+}
+
+// Embeddings always come from the local Ollama server, whichever provider writes titles.
+function createEmbeddingClient(settings: EmbeddingSettings) {
+  return createOllamaClient({
+    baseUrl: settings.llmProviders.ollama.baseUrl,
+    timeoutMs: settings.ollamaRequestTimeoutMs,
+  });
+}
+
+async function runEmbeddingIndexUpdate(args: {
+  files: TFile[];
+  settings: EmbeddingSettings;
+  prune?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<number> {
+  const { files, settings, prune, onProgress } = args;
+  const model = getEmbeddingModel(settings);
+  const maxChars = settings.ollamaMaxChars ?? 8000;
+  const index = get(embeddingIndex);
+
+  const pending: { file: TFile; text: string; hash: string }[] = [];
+  const revalidated: EmbeddingIndex = {};
+  const removed = new Set<string>();
+
+  for (const file of files) {
+    const mtime = file.stat?.mtime ?? 0;
+    const entry = index[file.path];
+    if (isEmbeddingEntryFresh(entry, mtime, model)) {
+      continue;
+    }
+
+    const text = prepareNoteTextForOllama(await window.app.vault.cachedRead(file), maxChars);
+    if (!text.trim()) {
+      removed.add(file.path);
+      continue;
+    }
+
+    const hash = hashString(text);
+    if (entry && entry.model === model && entry.hash === hash) {
+      revalidated[file.path] = { ...entry, mtime };
+    } else {
+      pending.push({ file, text, hash });
+    }
+  }
+
+  // An empty list means the daily notes couldn't be found, not that they were all deleted.
+  if (prune && files.length) {
+    const paths = new Set(files.map((file) => file.path));
+    for (const path of Object.keys(index)) {
+      if (!paths.has(path)) {
+        removed.add(path);
+      }
+    }
+  }
+
+  if (removed.size || Object.keys(revalidated).length) {
+    embeddingIndex.update((current) => {
+      const next = { ...current, ...revalidated };
+      for (const path of removed) {
+        delete next[path];
+      }
+      return next;
+    });
+  }
+
+  if (!pending.length) {
+    return 0;
+  }
+
+  const client = createEmbeddingClient(settings);
+  let done = 0;
+  onProgress?.(done, pending.length);
+
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await client.embed(
+      model,
+      batch.map((item) => item.text)
+    );
+
+    // Store each batch as it arrives, so an interrupted update keeps its progress.
+    const entries: EmbeddingIndex = {};
+    batch.forEach((item, j) => {
+      const entry: EmbeddingIndexEntry = {
+        mtime: item.file.stat?.mtime ?? 0,
+        hash: item.hash,
+        model,
+        vector: vectors[j],
+      };
+      entries[item.file.path] = entry;
+    });
+    embeddingIndex.update((current) => ({ ...current, ...entries }));
+
+    done += batch.length;
+    onProgress?.(done, pending.length);
+  }
+
+  return done;
+}
+
+/**
+ * Embed the daily notes that are new or changed since they were indexed and return how
+ * many were embedded. Unchanged notes (same model and text hash) are only revalidated.
+ * With `prune`, notes missing from a non-empty `files` are dropped from the index. Updates run one
+ * at a time, so a note is never embedded twice by overlapping calls.
+ */
+export async function updateEmbeddingIndex(args: {
+  files: TFile[];
+  settings: EmbeddingSettings;
+  prune?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<number> {
+  while (runningUpdate) {
+    await runningUpdate.catch(() => undefined);
+  }
+
+  const update = runEmbeddingIndexUpdate(args);
+  runningUpdate = update;
+  try {
+    return await update;
+  } finally {
+    runningUpdate = null;
+  }
+}
+
+/**
+ * `updateEmbeddingIndex` with a progress notice, for commands and settings buttons.
+ */
+export async function updateEmbeddingIndexWithNotice(args: {
+  files: TFile[];
+  settings: EmbeddingSettings;
+}): Promise<void> {
+  const notice = new Notice("Updating semantic index…", 0);
+  try {
+    const embedded = await updateEmbeddingIndex({
+      ...args,
+      prune: true,
+      onProgress: (done, total) => notice.setMessage(`Embedding daily notes: ${done}/${total}…`),
+    });
+    new Notice(
+      embedded
+        ? `Semantic index updated: ${embedded === 1 ? "1 note" : `${embedded} notes`} embedded.`
+        : "Semantic index is up to date."
+    );
+  } catch (err) {
+    console.error("[Calendar] Failed to update semantic index", err);
+    const msg = err instanceof Error ? err.message : String(err);
+    new Notice(`Failed to update the semantic index: ${msg}`);
+  } finally {
+    notice.hide();
+  }
+}
+
+/**
+ * Daily notes in the index ranked by similarity to a free-text query.
+ */
+export async function searchEmbeddingIndex(args: {
+  query: string;
+  settings: EmbeddingSettings;
+  limit: number;
+}): Promise<SimilarDay[]> {
+  const { query, settings, limit } = args;
+  const model = getEmbeddingModel(settings);
+  const [vector] = await createEmbeddingClient(settings).embed(model, [query]);
+  return rankBySimilarity(get(embeddingIndex), vector, { model, limit });
+}
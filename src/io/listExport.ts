@@ -0,0 +1,94 @@
+import { Notice, normalizePath } from "obsidian";
+
+import { ensureParentFolderExists } from "src/io/periodicNotes";
+import {
+  LIST_EXPORT_FORMATS,
+  serializeListExport,
+  type ListExportContext,
+  type ListExportDestination,
+  type ListExportFormat,
+} from "src/ui/listExport";
+import type { ListGroupNode, ListItem } from "src/ui/listViewModel";
+import { getNoteMetrics } from "src/ui/noteMetrics";
+
+// The list as currently grouped, sorted and filtered, as handed over by the calendar view.
+export type ListExportSource = {
+  groups: ListGroupNode[];
+  getLabel: (item: ListItem) => string;
+  getColor: (item: ListItem) => string | null;
+};
+
+function collectItems(groups: ListGroupNode[]): ListItem[] {
+  return groups.flatMap((group) => [...collectItems(group.groups), ...group.items]);
+}
+
+// Word counts are only read while the list shows word totals or sorts by them.
+async function readWordCounts(items: ListItem[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const pending = items.filter((item) => item.file && item.wordCount === undefined);
+  const concurrency = 10;
+
+  for (let i = 0; i < pending.length; i += concurrency) {
+    const chunk = pending.slice(i, i + concurrency);
+    const metrics = await Promise.all(chunk.map((item) => getNoteMetrics(item.file)));
+    chunk.forEach((item, j) => counts.set(item.filePath, metrics[j].wordCount));
+  }
+
+  return counts;
+}
+
+function getAvailableExportPath(extension: string): string {
+  const { vault, fileManager } = window.app;
+  const folder = fileManager.getNewFileParent("").path;
+  const base = `List export ${window.moment().format("YYYY-MM-DD HHmm")}`;
+  const prefix = folder && folder !== "/" ? `${folder}/` : "";
+
+  let path = normalizePath(`${prefix}${base}.${extension}`);
+  for (let n = 1; vault.getAbstractFileByPath(path); n++) {
+    path = normalizePath(`${prefix}${base} ${n}.${extension}`);
+  }
+  return path;
+}
+
+/**
+ * Serialise the list and write it to a new file in the vault (opened when it's Markdown)
+ * or copy it to the clipboard.
+ */
+export async function exportListView(args: {
+  source: ListExportSource;
+  format: ListExportFormat;
+  destination: ListExportDestination;
+}): Promise<void> {
+  const { source, format, destination } = args;
+  const { vault, workspace, metadataCache } = window.app;
+
+  try {
+    const wordCounts = await readWordCounts(collectItems(source.groups));
+    const context: ListExportContext = {
+      getLabel: source.getLabel,
+      getColor: source.getColor,
+      getWordCount: (item) => wordCounts.get(item.filePath),
+      getLinkText: (item) => (item.file ? metadataCache.fileToLinktext(item.file, "") : item.filePath),
+    };
+    const text = serializeListExport(source.groups, format, context);
+
+    if (destination === "clipboard") {
+      await navigator.clipboard.writeText(text);
+      new Notice("List export copied to the clipboard.");
+      return;
+    }
+
+    const extension = LIST_EXPORT_FORMATS.find((f) => f.format === format)?.extension ?? "md";
+    const path = getAvailableExportPath(extension);
+    await ensureParentFolderExists(path);
+    const file = await vault.create(path, text);
+    new Notice(`List exported to ${file.path}.`);
+    if (extension === "md") {
+      await workspace.getLeaf(false).openFile(file, { active: true });
+    }
+  } catch (err) {
+    console.error("[Calendar] Failed to export list view", err);
+    const msg = err instanceof Error ? err.message : String(err);
+    new Notice(`Failed to export the list: ${msg}`);
+  }
+}
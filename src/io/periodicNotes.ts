@@ -0,0 +1,318 @@
+import { normalizePath, TFile, TFolder } from "obsidian";
+import type { moment } from "obsidian";
+import { getTemplateInfo } from "obsidian-daily-notes-interface";
+import type { IPeriodicNoteSettings } from "obsidian-daily-notes-interface";
+
+import {
+  DEFAULT_MONTH_FORMAT,
+  DEFAULT_QUARTER_FORMAT,
+  DEFAULT_YEAR_FORMAT,
+} from "src/constants";
+import {
+  getPeriodicNoteDepth,
+  getPeriodicNotePath,
+  parsePeriodicNotePath,
+} from "src/periodicNotePaths";
+import type { ISettings } from "src/settings";
+import { createConfirmationDialog } from "src/ui/modal";
+
+type Moment = moment.Moment;
+
+const parseStrict = (value: string, format: string): Moment => window.moment(value, format, true);
+
+/**
+ * Periodic notes beyond daily/weekly. `obsidian-daily-notes-interface` only knows
+ * day/week/month (and reads monthly settings exclusively from Periodic Notes), so
+ * these are resolved here against our own settings.
+ */
+export type PeriodicNoteGranularity = "month" | "quarter" | "year";
+
+const PERIODIC_NOTES_PLUGIN_KEYS: Record<PeriodicNoteGranularity, string> = {
+  month: "monthly",
+  quarter: "quarterly",
+  year: "yearly",
+};
+
+const PERIODIC_NOTE_LABELS: Record<PeriodicNoteGranularity, string> = {
+  month: "monthly",
+  quarter: "quarterly",
+  year: "yearly",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function asTrimmedString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Settings from the Periodic Notes community plugin, when it has this periodicity enabled.
+ */
+function getPeriodicNotesPluginSettings(
+  granularity: PeriodicNoteGranularity
+): Record<string, unknown> | null {
+  const appRecord = window.app as unknown;
+  if (!isRecord(appRecord)) {
+    return null;
+  }
+
+  const plugins = appRecord["plugins"];
+  if (!isRecord(plugins) || typeof plugins["getPlugin"] !== "function") {
+    return null;
+  }
+
+  const plugin = (plugins["getPlugin"] as (id: string) => unknown)("periodic-notes");
+  if (!isRecord(plugin) || !isRecord(plugin["settings"])) {
+    return null;
+  }
+
+  const periodic = plugin["settings"][PERIODIC_NOTES_PLUGIN_KEYS[granularity]];
+  if (!isRecord(periodic) || periodic["enabled"] !== true) {
+    return null;
+  }
+
+  return periodic;
+}
+
+export function getPeriodicNoteSettings(
+  granularity: PeriodicNoteGranularity,
+  options: ISettings
+): Required<IPeriodicNoteSettings> {
+  const fromPlugin = getPeriodicNotesPluginSettings(granularity);
+  if (fromPlugin) {
+    return {
+      format:
+        asTrimmedString(fromPlugin["format"]) || getDefaultPeriodicNoteFormat(granularity),
+      folder: asTrimmedString(fromPlugin["folder"]),
+      template: asTrimmedString(fromPlugin["template"]),
+    };
+  }
+
+  switch (granularity) {
+    case "month":
+      return {
+        format: options.monthlyNoteFormat?.trim() || DEFAULT_MONTH_FORMAT,
+        folder: options.monthlyNoteFolder?.trim() ?? "",
+        template: options.monthlyNoteTemplate?.trim() ?? "",
+      };
+    case "quarter":
+      return {
+        format: options.quarterlyNoteFormat?.trim() || DEFAULT_QUARTER_FORMAT,
+        folder: options.quarterlyNoteFolder?.trim() ?? "",
+        template: options.quarterlyNoteTemplate?.trim() ?? "",
+      };
+    case "year":
+      return {
+        format: options.yearlyNoteFormat?.trim() || DEFAULT_YEAR_FORMAT,
+        folder: options.yearlyNoteFolder?.trim() ?? "",
+        template: options.yearlyNoteTemplate?.trim() ?? "",
+      };
+  }
+}
+
+export function getDefaultPeriodicNoteFormat(
+  granularity: PeriodicNoteGranularity
+): string {
+  switch (granularity) {
+    case "month":
+      return DEFAULT_MONTH_FORMAT;
+    case "quarter":
+      return DEFAULT_QUARTER_FORMAT;
+    case "year":
+      return DEFAULT_YEAR_FORMAT;
+  }
+}
+
+/**
+ * Same shape as `getDateUID` from obsidian-daily-notes-interface, so the keys can
+ * live side by side with day/week UIDs.
+ */
+export function getPeriodicNoteUID(
+  date: Moment,
+  granularity: PeriodicNoteGranularity
+): string {
+  return `${granularity}-${date.clone().startOf(granularity).format()}`;
+}
+
+export function getDateFromPeriodicNote(
+  file: TFile,
+  granularity: PeriodicNoteGranularity,
+  options: ISettings
+): Moment | null {
+  const { format, folder } = getPeriodicNoteSettings(granularity, options);
+  return parsePeriodicNotePath(file.path, format, folder, parseStrict);
+}
+
+export function getPeriodicNote(
+  date: Moment,
+  granularity: PeriodicNoteGranularity,
+  notes: Record<string, TFile>
+): TFile | null {
+  return notes[getPeriodicNoteUID(date, granularity)] ?? null;
+}
+
+export function getAllPeriodicNotes(
+  granularity: PeriodicNoteGranularity,
+  options: ISettings
+): Record<string, TFile> {
+  const { vault } = window.app;
+  const { format, folder } = getPeriodicNoteSettings(granularity, options);
+
+  const notesFolder = folder
+    ? vault.getAbstractFileByPath(normalizePath(folder))
+    : vault.getRoot();
+  if (!(notesFolder instanceof TFolder)) {
+    throw new Error(`Failed to find ${PERIODIC_NOTE_LABELS[granularity]} notes folder`);
+  }
+
+  // Only descend as far as the format nests notes, so a vault-root setup doesn't scan the vault.
+  const maxDepth = getPeriodicNoteDepth(format);
+  const notes: Record<string, TFile> = {};
+  const visit = (parent: TFolder, depth: number): void => {
+    for (const child of parent.children) {
+      if (child instanceof TFolder) {
+        if (depth < maxDepth) {
+          visit(child, depth + 1);
+        }
+      } else if (child instanceof TFile) {
+        const date = parsePeriodicNotePath(child.path, format, folder, parseStrict);
+        if (date) {
+          notes[getPeriodicNoteUID(date, granularity)] = child;
+        }
+      }
+    }
+  };
+  visit(notesFolder, 0);
+
+  return notes;
+}
+
+export async function ensureParentFolderExists(path: string): Promise<void> {
+  const { vault } = window.app;
+
+  const dirs = path.split("/");
+  dirs.pop();
+
+  const dir = dirs.filter(Boolean).join("/");
+  if (dir && !vault.getAbstractFileByPath(dir)) {
+    await vault.createFolder(dir);
+  }
+}
+
+/**
+ * Mirrors the template variables of the core daily notes plugin:
+ * `{{date}}`, `{{title}}`, `{{time}}` and `{{date:FORMAT}}`.
+ */
+export function renderPeriodicNoteTemplate(args: {
+  contents: string;
+  date: Moment;
+  filename: string;
+  now: Moment;
+}): string {
+  const { contents, date, filename, now } = args;
+
+  return contents
+    .replace(/{{\s*(date|time)\s*:(.*?)}}/gi, (_match, _token: string, fmt: string) =>
+      date
+        .clone()
+        .set({
+          hour: now.get("hour"),
+          minute: now.get("minute"),
+          second: now.get("second"),
+        })
+        .format(fmt.trim())
+    )
+    .replace(/{{\s*date\s*}}/gi, filename)
+    .replace(/{{\s*time\s*}}/gi, now.format("HH:mm"))
+    .replace(/{{\s*title\s*}}/gi, filename);
+}
+
+export async function createPeriodicNote(
+  date: Moment,
+  granularity: PeriodicNoteGranularity,
+  options: ISettings
+): Promise<TFile> {
+  const { vault } = window.app;
+  const { format, folder, template } = getPeriodicNoteSettings(granularity, options);
+
+  const [templateContents] = template ? await getTemplateInfo(template) : [""];
+  const filename = date.format(format);
+  const path = normalizePath(getPeriodicNotePath(date, format, folder));
+
+  await ensureParentFolderExists(path);
+
+  return vault.create(
+    path,
+    renderPeriodicNoteTemplate({
+      contents: templateContents ?? "",
+      date,
+      filename,
+      now: window.moment(),
+    })
+  );
+}
+
+/**
+ * Create a monthly, quarterly or yearly note for a given date.
+ */
+export async function tryToCreatePeriodicNote(
+  granularity: PeriodicNoteGranularity,
+  date: moment.Moment,
+  inNewSplit: boolean,
+  settings: ISettings,
+  cb?: (file: TFile) => void
+): Promise<void> {
+  const { workspace } = window.app;
+  const { format } = getPeriodicNoteSettings(granularity, settings);
+  const filename = date.format(format);
+
+  const createFile = async () => {
+    const periodicNote = await createPeriodicNote(date, granularity, settings);
+    const leaf = inNewSplit
+      ? workspace.getLeaf(true)
+      : workspace.getLeaf(false);
+
+    await leaf.openFile(periodicNote, { active: true });
+    cb?.(periodicNote);
+  };
+
+  if (settings.shouldConfirmBeforeCreate) {
+    createConfirmationDialog({
+      cta: "Create",
+      onAccept: createFile,
+      text: `File ${filename} does not exist. Would you like to create it?`,
+      title: `New ${PERIODIC_NOTE_LABELS[granularity]} note`,
+    });
+  } else {
+    await createFile();
+  }
+}
+
+export function tryToCreateMonthlyNote(
+  date: moment.Moment,
+  inNewSplit: boolean,
+  settings: ISettings,
+  cb?: (file: TFile) => void
+): Promise<void> {
+  return tryToCreatePeriodicNote("month", date, inNewSplit, settings, cb);
+}
+
+export function tryToCreateQuarterlyNote(
+  date: moment.Moment,
+  inNewSplit: boolean,
+  settings: ISettings,
+  cb?: (file: TFile) => void
+): Promise<void> {
+  return tryToCreatePeriodicNote("quarter", date, inNewSplit, settings, cb);
+}
+
+export function tryToCreateYearlyNote(
+  date: moment.Moment,
+  inNewSplit: boolean,
+  settings: ISettings,
+  cb?: (file: TFile) => void
+): Promise<void> {
+  return tryToCreatePeriodicNote("year", date, inNewSplit, settings, cb);
+}
@@ -0,0 +1,69 @@
+import { Notice } from "obsidian";
+import type { TFile } from "obsidian";
+
+import { formatCustomListTitleLabel } from "src/customListTitles";
+import type { ISettings } from "src/settings";
+import {
+  getFrontmatterTitleValue,
+  normalizeTitleFrontmatterProperty,
+  readFrontmatterTitle,
+  writeFrontmatterTitle,
+} from "src/titleFrontmatter";
+
+type TitleFrontmatterSettings = Pick<ISettings, "titleFrontmatterSync" | "titleFrontmatterProperty">;
+
+/**
+ * List label from the title property of a daily note's frontmatter, when syncing is on.
+ */
+export function getFrontmatterTitleLabel(
+  file: TFile | null | undefined,
+  dateStr: string,
+  settings: TitleFrontmatterSettings
+): string | null {
+  if (!file || !settings.titleFrontmatterSync) {
+    return null;
+  }
+
+  const frontmatter = window.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+  const title = readFrontmatterTitle(
+    frontmatter,
+    normalizeTitleFrontmatterProperty(settings.titleFrontmatterProperty)
+  );
+  return title ? formatCustomListTitleLabel(dateStr, title) : null;
+}
+
+/**
+ * Write a list label (generated or custom) into the title property of a daily note's
+ * frontmatter, replacing `previousLabel`. A null label removes the previous title.
+ */
+export async function syncTitleToFrontmatter(args: {
+  file: TFile;
+  dateStr: string;
+  label: string | null;
+  previousLabel?: string | null;
+  settings: TitleFrontmatterSettings;
+}): Promise<void> {
+  const { file, dateStr, label, previousLabel, settings } = args;
+  if (!settings.titleFrontmatterSync) {
+    return;
+  }
+
+  const property = normalizeTitleFrontmatterProperty(settings.titleFrontmatterProperty);
+  const title = label ? getFrontmatterTitleValue(dateStr, label) : "";
+  const previous = previousLabel ? getFrontmatterTitleValue(dateStr, previousLabel) : null;
+
+  // Skip the write (and the modify event it causes) when the note already has this title.
+  const frontmatter = window.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+  if (title && readFrontmatterTitle(frontmatter, property) === title) {
+    return;
+  }
+
+  try {
+    await window.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) =>
+      writeFrontmatterTitle(frontmatter, property, title, previous)
+    );
+  } catch (err) {
+    console.error("[Calendar] Failed to write title to frontmatter", err);
+    new Notice(`Couldn't write the title to the "${property}" property of ${file.basename}.`);
+  }
+}
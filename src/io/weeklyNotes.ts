@@ -8,13 +8,15 @@ import type { ISettings } from "src/settings";
 import { createConfirmationDialog } from "src/ui/modal";
 
 /**
- * Create a Weekly Note for a given date.
+ * Create a Weekly Note for a given date. `onCancel` runs when the user declines the
+ * confirmation, so callers waiting on `cb` can fall back.
  */
 export async function tryToCreateWeeklyNote(
   date: moment.Moment,
   inNewSplit: boolean,
   settings: ISettings,
-  cb?: (file: TFile) => void
+  cb?: (file: TFile) => void,
+  onCancel?: () => void
 ): Promise<void> {
   const { workspace } = window.app;
   const { format } = getWeeklyNoteSettings();
@@ -34,6 +36,7 @@ export async function tryToCreateWeeklyNote(
     createConfirmationDialog({
       cta: "Create",
       onAccept: createFile,
+      onCancel,
       text: `File ${filename} does not exist. Would you like to create it?`,
       title: "New weekly note",
     });
@@ -0,0 +1,186 @@
+export type FetchLike = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string; signal: AbortSignal }
+) => Promise<{
+  ok: boolean;
+  status: number;
+  text: () => Promise<string>;
+  body: { getReader: () => { read: () => Promise<{ done: boolean; value?: Uint8Array }> } } | null;
+}>;
+
+export type StreamHandle<T> = {
+  response: Promise<T>;
+  abort: () => void;
+};
+
+export function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs?: number,
+  label = "request"
+): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return promise;
+  }
+
+  return Promise.race([
+    promise,
+    new Promise<T>((_resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`${label} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      // If the main promise resolves/rejects first, clear the timer.
+      void promise.finally(() => clearTimeout(timer)).catch(() => undefined);
+    }),
+  ]);
+}
+
+export function defaultFetch(): FetchLike {
+  return (url, init) => window.fetch(url, init);
+}
+
+/**
+ * Incremental line splitter for streamed bodies. Chunks may split lines anywhere;
+ * `flush` emits a trailing unterminated line. Blank lines are skipped.
+ */
+export function createLineParser(onLine: (line: string) => void): {
+  push: (text: string) => void;
+  flush: () => void;
+} {
+  let buffer = "";
+
+  const emit = (line: string) => {
+    const trimmed = line.trim();
+    if (trimmed) {
+      onLine(trimmed);
+    }
+  };
+
+  return {
+    push: (text: string) => {
+      buffer += text;
+      let idx: number;
+      while ((idx = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 1);
+        emit(line);
+      }
+    },
+    flush: () => {
+      const rest = buffer;
+      buffer = "";
+      emit(rest);
+    },
+  };
+}
+
+/**
+ * POST a JSON body and feed the streamed response to `onLine`, line by line.
+ * The request is aborted when `signal` fires, when the returned `abort` is called,
+ * or when no data arrives for `inactivityTimeoutMs` (reset on every chunk).
+ * `finish` builds the resolved value once the body ends.
+ */
+export function streamLines<T>(args: {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  fetchImpl: FetchLike;
+  // Used in error messages ("Ollama", "OpenAI-compatible server", ...)
+  label: string;
+  apiPath: string;
+  onLine: (line: string) => void;
+  finish: () => T;
+  signal?: AbortSignal;
+  inactivityTimeoutMs?: number;
+  // Error message when aborted through `signal` or the handle
+  cancelMessage?: string;
+}): StreamHandle<T> {
+  const { label } = args;
+  const controller = new AbortController();
+
+  // The first abort reason wins, so a stall isn't reported as a user cancel.
+  let abortReason: Error | null = null;
+  const abortWith = (reason: Error) => {
+    if (!abortReason) {
+      abortReason = reason;
+      controller.abort();
+    }
+  };
+  const onExternalAbort = () => abortWith(new Error(args.cancelMessage ?? "Generation cancelled"));
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+  const resetTimer = () => {
+    const ms = args.inactivityTimeoutMs;
+    clearTimer();
+    if (ms && ms > 0) {
+      timer = setTimeout(
+        () => abortWith(new Error(`${label} stream stalled: no data for ${ms}ms`)),
+        ms
+      );
+    }
+  };
+
+  const run = async (): Promise<T> => {
+    if (args.signal?.aborted) {
+      onExternalAbort();
+    } else {
+      args.signal?.addEventListener("abort", onExternalAbort, { once: true });
+    }
+
+    try {
+      if (abortReason) {
+        throw abortReason;
+      }
+      resetTimer();
+
+      const res = await args.fetchImpl(args.url, {
+        method: "POST",
+        headers: args.headers,
+        body: JSON.stringify(args.body),
+        signal: controller.signal,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        const msg = text ? text.slice(0, 300) : `HTTP ${res.status}`;
+        throw new Error(`${label} error (${res.status}) at ${args.apiPath}: ${msg}`);
+      }
+      if (!res.body) {
+        throw new Error(`${label} returned an empty stream.`);
+      }
+
+      const parser = createLineParser(args.onLine);
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        resetTimer();
+        parser.push(decoder.decode(value, { stream: true }));
+      }
+      parser.push(decoder.decode());
+      parser.flush();
+
+      return args.finish();
+    } catch (err) {
+      // Fetch rejects with a generic AbortError; report why we aborted instead.
+      throw abortReason ?? err;
+    } finally {
+      clearTimer();
+      args.signal?.removeEventListener("abort", onExternalAbort);
+    }
+  };
+
+  return {
+    response: run(),
+    abort: onExternalAbort,
+  };
+}
@@ -0,0 +1,28 @@
+import type { ISettings } from "src/settings";
+import { createOllamaProvider } from "src/ollama/provider";
+
+import { createOpenAiProvider } from "./openai";
+import { getDefaultLlmProviderSettings, normalizeLlmProviderId } from "./provider";
+import type { LlmProvider, LlmProviderConfig } from "./provider";
+
+export type LlmSettings = Pick<ISettings, "llmProvider" | "llmProviders" | "ollamaRequestTimeoutMs">;
+
+export function getActiveLlmConfig(settings: LlmSettings): LlmProviderConfig {
+  const id = normalizeLlmProviderId(settings.llmProvider);
+  return settings.llmProviders?.[id] ?? getDefaultLlmProviderSettings()[id];
+}
+
+/**
+ * Build the provider selected in settings. The request timeout doubles as the
+ * inactivity timeout while streaming.
+ */
+export function createLlmProvider(settings: LlmSettings): LlmProvider {
+  const id = normalizeLlmProviderId(settings.llmProvider);
+  const config = getActiveLlmConfig(settings);
+  const timeoutMs = settings.ollamaRequestTimeoutMs ?? 15000;
+
+  if (id === "openai") {
+    return createOpenAiProvider({ baseUrl: config.baseUrl, apiKey: config.apiKey, timeoutMs });
+  }
+  return createOllamaProvider({ baseUrl: config.baseUrl, timeoutMs });
+}
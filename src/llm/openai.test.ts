@@ -0,0 +1,146 @@
+import { requestUrl } from "obsidian";
+
+import {
+  createOpenAiProvider,
+  getResponseFormats,
+  normalizeOpenAiBaseUrl,
+  parseSseData,
+} from "src/llm/openai";
+
+jest.mock("obsidian", () => ({
+  requestUrl: jest.fn(),
+}));
+
+describe("llm/openai", () => {
+  const requestUrlMock = requestUrl as jest.MockedFunction<typeof requestUrl>;
+
+  beforeEach(() => {
+    requestUrlMock.mockReset();
+  });
+
+  test("normalizeOpenAiBaseUrl", () => {
+    expect(normalizeOpenAiBaseUrl("")).toBe("http://127.0.0.1:8080/v1");
+    expect(normalizeOpenAiBaseUrl("http://localhost:1234/")).toBe("http://localhost:1234/v1");
+    expect(normalizeOpenAiBaseUrl("http://localhost:1234/v1/")).toBe("http://localhost:1234/v1");
+    expect(normalizeOpenAiBaseUrl("http://h/v1/chat/completions")).toBe("http://h/v1");
+    expect(normalizeOpenAiBaseUrl("https://h/openai/v1")).toBe("https://h/openai/v1");
+  });
+
+  test("parseSseData", () => {
+    expect(parseSseData('data: {"a":1}')).toBe('{"a":1}');
+    expect(parseSseData("data: [DONE]")).toBeNull();
+    expect(parseSseData(": keep-alive")).toBeNull();
+    expect(parseSseData("event: message")).toBeNull();
+  });
+
+  test("getResponseFormats falls back from json_schema to json_object to none", () => {
+    expect(getResponseFormats(undefined)).toEqual([undefined]);
+    expect(getResponseFormats({ type: "object" }).map((f) => f?.type)).toEqual([
+      "json_schema",
+      "json_object",
+      undefined,
+    ]);
+  });
+
+  test("lists models with the API key", async () => {
+    requestUrlMock.mockResolvedValue({
+      status: 200,
+      json: { data: [{ id: "qwen" }, { id: "" }, { id: "llama" }] },
+    } as never);
+
+    const provider = createOpenAiProvider({ baseUrl: "http://h:1234", apiKey: "secret" });
+    await expect(provider.getStatus()).resolves.toEqual({ label: "", models: ["qwen", "llama"] });
+
+    const call = requestUrlMock.mock.calls[0][0] as { url: string; headers: Record<string, string> };
+    expect(call.url).toBe("http://h:1234/v1/models");
+    expect(call.headers.authorization).toBe("Bearer secret");
+  });
+
+  describe("generate", () => {
+    const encoder = new TextEncoder();
+
+    // A fake fetch that answers each call with the next response in the list.
+    const fakeFetch = (responses: Array<{ status: number; chunks?: string[]; text?: string }>) => {
+      const bodies: Array<Record<string, unknown>> = [];
+      const fetch = jest.fn((_url: string, init: { body: string }) => {
+        bodies.push(JSON.parse(init.body) as Record<string, unknown>);
+        const res = responses[Math.min(bodies.length - 1, responses.length - 1)];
+        const chunks = [...(res.chunks ?? [])];
+        return Promise.resolve({
+          ok: res.status < 400,
+          status: res.status,
+          text: () => Promise.resolve(res.text ?? ""),
+          body: {
+            getReader: () => ({
+              read: () => {
+                const chunk = chunks.shift();
+                return Promise.resolve(
+                  chunk === undefined
+                    ? { done: true }
+                    : { done: false, value: encoder.encode(chunk) }
+                );
+              },
+            }),
+          },
+        });
+      });
+      return { fetch, bodies };
+    };
+
+    test("streams chat completion deltas", async () => {
+      const { fetch, bodies } = fakeFetch([
+        {
+          status: 200,
+          chunks: [
+            'data: {"choices":[{"delta":{"content":"{\\"a\\""}}]}\n\nda',
+            'ta: {"choices":[{"delta":{"content":":1}"}}]}\n\n',
+            "data: [DONE]\n\n",
+          ],
+        },
+      ]);
+      const provider = createOpenAiProvider({ baseUrl: "http://h/v1", fetch });
+
+      const seen: string[] = [];
+      const output = await provider.generate(
+        { model: "qwen", prompt: "hi", schema: { type: "object" }, maxTokens: 50 },
+        { onToken: (_token, text) => seen.push(text) }
+      );
+
+      expect(output).toBe('{"a":1}');
+      expect(seen).toEqual(['{"a"', '{"a":1}']);
+      expect(bodies[0]).toMatchObject({
+        model: "qwen",
+        stream: true,
+        max_tokens: 50,
+        messages: [{ role: "user", content: "hi" }],
+        response_format: { type: "json_schema" },
+      });
+    });
+
+    test("retries with a looser response format when the server rejects it", async () => {
+      const { fetch, bodies } = fakeFetch([
+        { status: 400, text: "json_schema not supported" },
+        { status: 200, chunks: ['data: {"choices":[{"delta":{"content":"{}"}}]}\n'] },
+      ]);
+      const provider = createOpenAiProvider({ baseUrl: "http://h/v1", fetch });
+
+      await expect(
+        provider.generate({ model: "m", prompt: "p", schema: { type: "object" } })
+      ).resolves.toBe("{}");
+      expect(bodies.map((b) => (b.response_format as { type?: string } | undefined)?.type)).toEqual([
+        "json_schema",
+        "json_object",
+      ]);
+    });
+
+    test("reports the last error when every format fails", async () => {
+      const { fetch } = fakeFetch([{ status: 404, text: "no such model" }]);
+      const provider = createOpenAiProvider({ baseUrl: "http://h/v1", fetch });
+
+      await expect(
+        provider.generate({ model: "m", prompt: "p", schema: { type: "object" } })
+      ).rejects.toThrow("OpenAI-compatible server error (404) at /chat/completions: no such model");
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
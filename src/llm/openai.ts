@@ -0,0 +1,228 @@
+import { requestUrl } from "obsidian";
+
+import type { LlmGenerateOptions, LlmGenerateRequest, LlmProvider } from "./provider";
+import { defaultFetch, streamLines, withTimeout } from "./http";
+import type { FetchLike } from "./http";
+
+const LABEL = "OpenAI-compatible server";
+
+type ChatCompletionChunk = {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    message?: { content?: string | null };
+  }>;
+  error?: { message?: string } | string;
+};
+
+type ModelsResponse = {
+  data?: Array<{ id?: string }>;
+};
+
+export function normalizeOpenAiBaseUrl(input: string | null | undefined): string {
+  let url = (input ?? "").trim().replace(/\/+$/, "");
+  if (!url) {
+    return "http://127.0.0.1:8080/v1";
+  }
+
+  // Accept a pasted endpoint URL as well as the API root.
+  url = url.replace(/\/(chat\/completions|models)$/i, "");
+
+  // Servers mount the API under /v1; add it when only a host was given.
+  if (/^[a-z]+:\/\/[^/]+$/i.test(url)) {
+    url = `${url}/v1`;
+  }
+
+  return url;
+}
+
+function buildHeaders(apiKey: string | undefined, accept: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    accept,
+    "content-type": "application/json",
+  };
+  if (apiKey) {
+    headers.authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+function readChunkError(chunk: ChatCompletionChunk): string | null {
+  if (!chunk?.error) {
+    return null;
+  }
+  return typeof chunk.error === "string" ? chunk.error : chunk.error.message ?? "Unknown error";
+}
+
+/**
+ * Extract the payload of a server-sent event line as used by `/chat/completions`
+ * streaming. Returns null for other fields, comments and the final `[DONE]`.
+ */
+export function parseSseData(line: string): string | null {
+  if (!line.startsWith("data:")) {
+    return null;
+  }
+  const data = line.slice(5).trim();
+  return data && data !== "[DONE]" ? data : null;
+}
+
+/**
+ * Response formats to try, most specific first. Not every server supports
+ * `json_schema` (or even `json_object`), so generation falls back down the list.
+ */
+export function getResponseFormats(schema: unknown): Array<Record<string, unknown> | undefined> {
+  if (schema === undefined) {
+    return [undefined];
+  }
+  return [
+    { type: "json_schema", json_schema: { name: "output", schema, strict: true } },
+    { type: "json_object" },
+    undefined,
+  ];
+}
+
+/**
+ * Provider for servers implementing the OpenAI chat completions API
+ * (llama.cpp, LM Studio, vLLM, ...).
+ */
+export function createOpenAiProvider(config: {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  fetch?: FetchLike;
+}): LlmProvider {
+  const baseUrl = normalizeOpenAiBaseUrl(config.baseUrl);
+  const fetchImpl = config.fetch ?? defaultFetch();
+
+  const listModels = async (): Promise<string[]> => {
+    const res = await withTimeout(
+      requestUrl({
+        url: `${baseUrl}/models`,
+        method: "GET",
+        headers: buildHeaders(config.apiKey, "application/json"),
+        throw: false,
+      }),
+      config.timeoutMs,
+      `GET ${baseUrl}/models`
+    );
+    if (res.status >= 400) {
+      const msg = res.text ? res.text.slice(0, 300) : `HTTP ${res.status}`;
+      throw new Error(`${LABEL} error (${res.status}) at /models: ${msg}`);
+    }
+    const json = res.json as ModelsResponse;
+    return (json?.data ?? []).map((m) => m?.id ?? "").filter(Boolean);
+  };
+
+  const buildBody = (
+    req: LlmGenerateRequest,
+    responseFormat: Record<string, unknown> | undefined,
+    stream: boolean
+  ) => ({
+    model: req.model,
+    messages: [{ role: "user", content: req.prompt }],
+    temperature: req.temperature,
+    max_tokens: req.maxTokens,
+    response_format: responseFormat,
+    stream,
+  });
+
+  const complete = async (
+    req: LlmGenerateRequest,
+    responseFormat: Record<string, unknown> | undefined
+  ): Promise<string> => {
+    const res = await withTimeout(
+      requestUrl({
+        url: `${baseUrl}/chat/completions`,
+        method: "POST",
+        headers: buildHeaders(config.apiKey, "application/json"),
+        body: JSON.stringify(buildBody(req, responseFormat, false)),
+        throw: false,
+      }),
+      config.timeoutMs,
+      `POST ${baseUrl}/chat/completions`
+    );
+    if (res.status >= 400) {
+      const msg = res.text ? res.text.slice(0, 300) : `HTTP ${res.status}`;
+      throw new Error(`${LABEL} error (${res.status}) at /chat/completions: ${msg}`);
+    }
+    const json = res.json as ChatCompletionChunk;
+    const error = readChunkError(json);
+    if (error) {
+      throw new Error(error);
+    }
+    return json?.choices?.[0]?.message?.content ?? "";
+  };
+
+  const stream = async (
+    req: LlmGenerateRequest,
+    responseFormat: Record<string, unknown> | undefined,
+    opts: LlmGenerateOptions | undefined
+  ): Promise<string> => {
+    let text = "";
+    let received = false;
+
+    try {
+      return await streamLines<string>({
+        url: `${baseUrl}/chat/completions`,
+        headers: buildHeaders(config.apiKey, "text/event-stream"),
+        body: buildBody(req, responseFormat, true),
+        fetchImpl,
+        label: LABEL,
+        apiPath: "/chat/completions",
+        signal: opts?.signal,
+        inactivityTimeoutMs: config.timeoutMs,
+        onLine: (line) => {
+          const data = parseSseData(line);
+          if (!data) {
+            return;
+          }
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const error = readChunkError(chunk);
+          if (error) {
+            throw new Error(error);
+          }
+          const token = chunk?.choices?.[0]?.delta?.content ?? "";
+          if (token) {
+            received = true;
+            text += token;
+            opts?.onToken?.(token, text);
+          }
+        },
+        finish: () => text,
+      }).response;
+    } catch (err) {
+      // `fetch` can fail where `requestUrl` works (e.g. CORS); fall back to one plain request.
+      if (err instanceof TypeError && !received && !opts?.signal?.aborted) {
+        return complete(req, responseFormat);
+      }
+      throw err;
+    }
+  };
+
+  return {
+    id: "openai",
+    label: "OpenAI-compatible",
+    baseUrl,
+
+    getStatus: async () => {
+      const models = await listModels();
+      return { label: "", models };
+    },
+
+    generate: async (req, opts) => {
+      const formats = getResponseFormats(req.schema);
+      let lastError: unknown = null;
+
+      for (const format of formats) {
+        try {
+          return await stream(req, format, opts);
+        } catch (err) {
+          if (opts?.signal?.aborted) {
+            throw err;
+          }
+          lastError = err;
+        }
+      }
+      throw lastError;
+    },
+  };
+}
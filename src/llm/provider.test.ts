@@ -0,0 +1,49 @@
+import {
+  getDefaultLlmProviderSettings,
+  isModelListed,
+  normalizeLlmProviderId,
+  sanitizeLlmProviderSettings,
+} from "src/llm/provider";
+
+describe("llm/provider", () => {
+  test("normalizeLlmProviderId falls back to ollama", () => {
+    expect(normalizeLlmProviderId("openai")).toBe("openai");
+    expect(normalizeLlmProviderId("nope")).toBe("ollama");
+    expect(normalizeLlmProviderId(undefined)).toBe("ollama");
+  });
+
+  test("sanitizeLlmProviderSettings fills defaults and drops junk", () => {
+    expect(sanitizeLlmProviderSettings(null)).toEqual(getDefaultLlmProviderSettings());
+
+    const settings = sanitizeLlmProviderSettings({
+      openai: { baseUrl: " http://localhost:1234/v1 ", model: "qwen", apiKey: 3 },
+      other: { baseUrl: "x" },
+    });
+    expect(settings.openai).toEqual({
+      baseUrl: "http://localhost:1234/v1",
+      model: "qwen",
+      apiKey: "",
+    });
+    expect(settings.ollama).toEqual(getDefaultLlmProviderSettings().ollama);
+    expect(Object.keys(settings).sort()).toEqual(["ollama", "openai"]);
+  });
+
+  test("migrates the legacy Ollama URL and model", () => {
+    const legacy = { ollamaBaseUrl: "http://nas:11434", ollamaModel: "llama3.2" };
+
+    expect(sanitizeLlmProviderSettings(undefined, legacy).ollama).toMatchObject({
+      baseUrl: "http://nas:11434",
+      model: "llama3.2",
+    });
+    // Saved provider settings win over legacy values.
+    expect(
+      sanitizeLlmProviderSettings({ ollama: { baseUrl: "http://a", model: "b" } }, legacy).ollama
+    ).toMatchObject({ baseUrl: "http://a", model: "b" });
+  });
+
+  test("isModelListed matches case-insensitively", () => {
+    expect(isModelListed(["Gemma3:4b", "qwen"], "gemma3:4b")).toBe(true);
+    expect(isModelListed(["qwen"], "gemma3:4b")).toBe(false);
+    expect(isModelListed(["qwen"], "")).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+export type LlmProviderId = "ollama" | "openai";
+
+export type LlmProviderConfig = {
+  baseUrl: string;
+  model: string;
+  // Sent as a bearer token; only used by OpenAI-compatible servers
+  apiKey: string;
+};
+
+export type LlmProviderSettings = Record<LlmProviderId, LlmProviderConfig>;
+
+export type LlmProviderInfo = {
+  id: LlmProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  // Whether the server can download models on request (Ollama only)
+  canPullModels: boolean;
+};
+
+export const LLM_PROVIDERS: LlmProviderInfo[] = [
+  {
+    id: "ollama",
+    label: "Ollama",
+    defaultBaseUrl: "http://127.0.0.1:11434",
+    defaultModel: "gemma3:4b",
+    canPullModels: true,
+  },
+  {
+    // llama.cpp server, LM Studio, vLLM, LocalAI, ...
+    id: "openai",
+    label: "OpenAI-compatible",
+    defaultBaseUrl: "http://127.0.0.1:8080/v1",
+    defaultModel: "",
+    canPullModels: false,
+  },
+];
+
+export type LlmGenerateRequest = {
+  model: string;
+  prompt: string;
+  // JSON Schema for the output; providers fall back to plain JSON mode when unsupported
+  schema?: unknown;
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type LlmGenerateOptions = {
+  // Called per chunk with the new text and everything received so far
+  onToken?: (token: string, text: string) => void;
+  signal?: AbortSignal;
+};
+
+export type LlmProviderStatus = {
+  // Short description of the server, e.g. its version
+  label: string;
+  models: string[];
+};
+
+/**
+ * A text generation backend. `generate` resolves with the raw model output;
+ * parsing it is up to the caller.
+ */
+export type LlmProvider = {
+  id: LlmProviderId;
+  label: string;
+  baseUrl: string;
+  getStatus: () => Promise<LlmProviderStatus>;
+  generate: (req: LlmGenerateRequest, opts?: LlmGenerateOptions) => Promise<string>;
+};
+
+export function getLlmProviderInfo(id: LlmProviderId): LlmProviderInfo {
+  return LLM_PROVIDERS.find((p) => p.id === id) ?? LLM_PROVIDERS[0];
+}
+
+export function normalizeLlmProviderId(value: unknown): LlmProviderId {
+  return LLM_PROVIDERS.some((p) => p.id === value) ? (value as LlmProviderId) : "ollama";
+}
+
+export function getDefaultLlmProviderSettings(): LlmProviderSettings {
+  const settings = {} as LlmProviderSettings;
+  for (const p of LLM_PROVIDERS) {
+    settings[p.id] = { baseUrl: p.defaultBaseUrl, model: p.defaultModel, apiKey: "" };
+  }
+  return settings;
+}
+
+function readString(value: unknown, fallback: string): string {
+  return typeof value === "string" ? value.trim() : fallback;
+}
+
+/**
+ * Sanitize persisted per-provider settings. `legacy` holds the pre-provider
+ * `ollamaBaseUrl`/`ollamaModel` settings, which seed the Ollama entry when present.
+ */
+export function sanitizeLlmProviderSettings(
+  value: unknown,
+  legacy?: { ollamaBaseUrl?: unknown; ollamaModel?: unknown }
+): LlmProviderSettings {
+  const defaults = getDefaultLlmProviderSettings();
+  const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+
+  const settings = {} as LlmProviderSettings;
+  for (const p of LLM_PROVIDERS) {
+    const fallback = { ...defaults[p.id] };
+    if (p.id === "ollama" && legacy) {
+      fallback.baseUrl = readString(legacy.ollamaBaseUrl, fallback.baseUrl) || fallback.baseUrl;
+      fallback.model = readString(legacy.ollamaModel, fallback.model) || fallback.model;
+    }
+
+    const entry = (raw[p.id] && typeof raw[p.id] === "object" ? raw[p.id] : {}) as Record<
+      string,
+      unknown
+    >;
+    settings[p.id] = {
+      baseUrl: readString(entry.baseUrl, fallback.baseUrl) || fallback.baseUrl,
+      model: readString(entry.model, fallback.model),
+      apiKey: readString(entry.apiKey, fallback.apiKey),
+    };
+  }
+  return settings;
+}
+
+export function isModelListed(models: string[], model: string): boolean {
+  const want = (model ?? "").trim().toLowerCase();
+  return !!want && models.some((m) => m.toLowerCase() === want);
+}
@@ -1,5 +1,7 @@
-import { addIcon, Plugin, type App, type WorkspaceLeaf } from "obsidian";
+import { addIcon, Notice, Plugin, type App, type Editor, type WorkspaceLeaf } from "obsidian";
 import type { moment } from "obsidian";
+import { getDateFromFile } from "obsidian-daily-notes-interface";
+import { get } from "svelte/store";
 
 import type { CustomListTitles } from "src/customListTitles";
 import { sanitizeCustomListTitles } from "src/customListTitles";
@@ -7,14 +9,41 @@ import { sanitizeCustomListTitles } from "src/customListTitles";
 import type { ListItemColorTags } from "src/listItemColorTags";
 import { sanitizeListItemColorTags } from "src/listItemColorTags";
 
+import { getActiveLlmConfig } from "src/llm";
+import { normalizeLlmProviderId, sanitizeLlmProviderSettings } from "src/llm/provider";
+
+import type { AutoTitleBudget } from "src/ollama/autoTitles";
+import { sanitizeAutoTitleBudget } from "src/ollama/autoTitles";
 import type { OllamaTitleCache } from "src/ollama/cache";
-import { pruneOllamaTitleCache, sanitizeOllamaTitleCache } from "src/ollama/cache";
+import { runDailyNoteTitlePrompt, type DailyNoteTitleResult } from "src/ollama/generateTitle";
+import { normalizeTitleOutputShape } from "src/ollama/titleTemplate";
+import {
+  migrateOllamaTitleCache,
+  pruneOllamaTitleCache,
+  renameOllamaTitleCacheEntries,
+  renamePathKeys,
+} from "src/ollama/cache";
+import type { EmbeddingIndex } from "src/ollama/embeddings";
+import { sanitizeEmbeddingIndex, serializeEmbeddingIndex } from "src/ollama/embeddings";
+
+import { getOnThisDayNotes } from "src/io/dailyNotes";
+import { formatDigestPeriodLabel, summariseDailyNotes } from "src/io/digest";
+import { updateEmbeddingIndexWithNotice } from "src/io/embeddings";
+import { sanitizeListFilters } from "src/ui/listFilters";
 
 import type { CalendarViewState } from "src/viewState";
 import { defaultViewState, sanitizeCalendarViewState } from "src/viewState";
 
 import { VIEW_TYPE_CALENDAR } from "./constants";
-import { customListTitles, listItemColorTags, ollamaTitleCache, settings } from "./ui/stores";
+import {
+  autoTitleBudget,
+  customListTitles,
+  dailyNotes,
+  embeddingIndex,
+  listItemColorTags,
+  ollamaTitleCache,
+  settings,
+} from "./ui/stores";
 import {
   appHasPeriodicNotesPluginLoaded,
   CalendarSettingsTab,
@@ -22,6 +51,9 @@ import {
   type ISettings,
 } from "./settings";
 import CalendarView from "./view";
+import { SemanticSearchModal } from "./ui/semanticSearchModal";
+import { getStreakStats } from "./ui/sources";
+import { formatStreakStatsMarkdown } from "./ui/streaks";
 import {
   buildListItemTagColorSwatchSvg,
   LIST_ITEM_TAG_COLORS,
@@ -50,6 +82,8 @@ declare global {
 type PluginDataV3 = {
   settings: ISettings;
   ollamaTitleCache: OllamaTitleCache;
+  autoTitleBudget: AutoTitleBudget;
+  embeddingIndex: EmbeddingIndex;
   customListTitles: CustomListTitles;
   listItemColorTags: ListItemColorTags;
   viewState: CalendarViewState;
@@ -73,6 +107,8 @@ export default class CalendarPlugin extends Plugin {
   private data: PluginDataV3 = {
     settings: { ...defaultSettings } as ISettings,
     ollamaTitleCache: {},
+    autoTitleBudget: { day: "", used: 0 },
+    embeddingIndex: {},
     customListTitles: {},
     listItemColorTags: {},
     viewState: { ...defaultViewState },
@@ -110,6 +146,24 @@ export default class CalendarPlugin extends Plugin {
       })
     );
 
+    this.register(
+      autoTitleBudget.subscribe((budget) => {
+        this.data = { ...this.data, autoTitleBudget: budget };
+        if (!this.isLoadingData) {
+          this.scheduleSaveData();
+        }
+      })
+    );
+
+    this.register(
+      embeddingIndex.subscribe((index) => {
+        this.data = { ...this.data, embeddingIndex: index };
+        if (!this.isLoadingData) {
+          this.scheduleSaveData();
+        }
+      })
+    );
+
     this.register(
       customListTitles.subscribe((titles) => {
         this.data = { ...this.data, customListTitles: titles };
@@ -128,6 +182,14 @@ export default class CalendarPlugin extends Plugin {
       })
     );
 
+    // Generated titles and embeddings follow their notes (or folders) when they're renamed.
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        ollamaTitleCache.update((cache) => renameOllamaTitleCacheEntries(cache, oldPath, file.path));
+        embeddingIndex.update((index) => renamePathKeys(index, oldPath, file.path));
+      })
+    );
+
     this.registerView(VIEW_TYPE_CALENDAR, (leaf: WorkspaceLeaf) => new CalendarView(leaf));
 
     this.addCommand({
@@ -157,6 +219,48 @@ export default class CalendarPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: "open-monthly-note",
+      name: "Open monthly note",
+      checkCallback: (checking) => {
+        if (checking) {
+          return !appHasPeriodicNotesPluginLoaded(this.app);
+        }
+
+        void this.withCalendarView((view) => {
+          view.openOrCreatePeriodicNote("month", window.moment(), false);
+        });
+      },
+    });
+
+    this.addCommand({
+      id: "open-quarterly-note",
+      name: "Open quarterly note",
+      checkCallback: (checking) => {
+        if (checking) {
+          return !appHasPeriodicNotesPluginLoaded(this.app);
+        }
+
+        void this.withCalendarView((view) => {
+          view.openOrCreatePeriodicNote("quarter", window.moment(), false);
+        });
+      },
+    });
+
+    this.addCommand({
+      id: "open-yearly-note",
+      name: "Open yearly note",
+      checkCallback: (checking) => {
+        if (checking) {
+          return !appHasPeriodicNotesPluginLoaded(this.app);
+        }
+
+        void this.withCalendarView((view) => {
+          view.openOrCreatePeriodicNote("year", window.moment(), false);
+        });
+      },
+    });
+
     this.addCommand({
       id: "reveal-active-note",
       name: "Reveal active note",
@@ -166,6 +270,51 @@ export default class CalendarPlugin extends Plugin {
         }),
     });
 
+    this.addCommand({
+      id: "insert-streak-stats",
+      name: "Insert streak statistics",
+      editorCallback: (editor) => void this.insertStreakStats(editor),
+    });
+
+    this.addCommand({
+      id: "open-random-on-this-day-note",
+      name: "Open random note from this day in earlier years",
+      callback: () => void this.withCalendarView(() => this.openRandomOnThisDayNote()),
+    });
+
+    this.addCommand({
+      id: "summarise-this-week",
+      name: "Summarise this week",
+      callback: () => void this.summariseCurrentPeriod("week"),
+    });
+
+    this.addCommand({
+      id: "summarise-this-month",
+      name: "Summarise this month",
+      callback: () => void this.summariseCurrentPeriod("month"),
+    });
+
+    this.addCommand({
+      id: "export-list-view",
+      name: "Export list view",
+      callback: () =>
+        void this.withCalendarView((view) => {
+          view.exportList();
+        }),
+    });
+
+    this.addCommand({
+      id: "update-semantic-index",
+      name: "Update semantic index",
+      callback: () => void this.updateSemanticIndex(),
+    });
+
+    this.addCommand({
+      id: "semantic-search",
+      name: "Semantic search across daily notes",
+      callback: () => new SemanticSearchModal(this.app, this.options).open(),
+    });
+
     await this.loadOptions();
 
     this.addSettingTab(new CalendarSettingsTab(this.app, this));
@@ -177,6 +326,80 @@ export default class CalendarPlugin extends Plugin {
     }
   }
 
+  private async insertStreakStats(editor: Editor): Promise<void> {
+    try {
+      const stats = await getStreakStats();
+      editor.replaceSelection(
+        formatStreakStatsMarkdown(stats, { minWords: this.options.streakMinWords })
+      );
+    } catch (err) {
+      console.error("[Calendar] Failed to insert streak statistics", err);
+      new Notice("Failed to compute streak statistics.");
+    }
+  }
+
+  private async openRandomOnThisDayNote(): Promise<void> {
+    const entries = getOnThisDayNotes(
+      get(dailyNotes) ?? {},
+      window.moment(),
+      this.options.onThisDayIncludeWeek
+    );
+    if (!entries.length) {
+      new Notice("No daily notes from this day in earlier years.");
+      return;
+    }
+
+    const entry = entries[Math.floor(Math.random() * entries.length)];
+    try {
+      await this.app.workspace.getLeaf(false).openFile(entry.file, { active: true });
+    } catch (err) {
+      console.error("[Calendar] Failed to open on this day note", err);
+    }
+  }
+
+  /**
+   * Run the title template against the active note (used by the settings preview).
+   */
+  async previewTitleTemplate(): Promise<DailyNoteTitleResult> {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== "md") {
+      throw new Error("Open a note to preview the title template.");
+    }
+
+    const date = getDateFromFile(file, "day") ?? window.moment(file.stat.ctime);
+    return runDailyNoteTitlePrompt({
+      file,
+      dateStr: date.format("YYYY-MM-DD"),
+      settings: this.options,
+    });
+  }
+
+  private async summariseCurrentPeriod(granularity: "week" | "month"): Promise<void> {
+    const now = window.moment();
+    // The locale week, as used to find and create the weekly note the digest goes to
+    const unit = granularity === "week" ? "week" : "month";
+    const files = Object.values(get(dailyNotes) ?? {}).filter((file) =>
+      getDateFromFile(file, "day")?.isSame(now, unit)
+    );
+
+    await summariseDailyNotes({
+      files,
+      periodLabel: formatDigestPeriodLabel(granularity, now),
+      week: granularity === "week" ? now : undefined,
+      settings: this.options,
+    });
+  }
+
+  /**
+   * Embed new and changed daily notes and drop notes that no longer exist.
+   */
+  async updateSemanticIndex(): Promise<void> {
+    await updateEmbeddingIndexWithNotice({
+      files: Object.values(get(dailyNotes) ?? {}),
+      settings: this.options,
+    });
+  }
+
   private getCalendarView(): CalendarView | null {
     const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_CALENDAR)[0];
     const view = leaf?.view;
@@ -252,10 +475,12 @@ export default class CalendarPlugin extends Plugin {
     await this.saveData({
       settings: this.options,
       ollamaTitleCache: prunedCache,
+      autoTitleBudget: this.data.autoTitleBudget,
+      embeddingIndex: serializeEmbeddingIndex(this.data.embeddingIndex),
       customListTitles: this.data.customListTitles,
       listItemColorTags: this.data.listItemColorTags,
       viewState: viewStateToSave,
-    } as PluginDataV3);
+    });
   }
 
   public async clearGeneratedTitles(): Promise<void> {
@@ -278,6 +503,8 @@ export default class CalendarPlugin extends Plugin {
       | undefined;
 
     const cacheData = isV2 ? rawRecord?.["ollamaTitleCache"] : undefined;
+    const autoTitleBudgetData = isV2 ? rawRecord?.["autoTitleBudget"] : undefined;
+    const embeddingIndexData = isV2 ? rawRecord?.["embeddingIndex"] : undefined;
     const customTitlesData = isV2 ? rawRecord?.["customListTitles"] : undefined;
     const listItemColorTagsData = isV2 ? rawRecord?.["listItemColorTags"] : undefined;
     const viewStateData = isV2 ? rawRecord?.["viewState"] : undefined;
@@ -290,14 +517,25 @@ export default class CalendarPlugin extends Plugin {
       ...settingsObj,
     };
 
+    // Older versions stored a single Ollama URL/model; fold them into the provider settings.
+    const legacyOllama = settingsObj as { ollamaBaseUrl?: unknown; ollamaModel?: unknown };
+    mergedSettings.llmProvider = normalizeLlmProviderId(settingsObj.llmProvider);
+    mergedSettings.llmProviders = sanitizeLlmProviderSettings(settingsObj.llmProviders, legacyOllama);
+    delete (mergedSettings as Partial<typeof legacyOllama>).ollamaBaseUrl;
+    delete (mergedSettings as Partial<typeof legacyOllama>).ollamaModel;
+    mergedSettings.titleOutputShape = normalizeTitleOutputShape(settingsObj.titleOutputShape);
+
     settings.set(mergedSettings);
 
     const sanitizedCache = pruneOllamaTitleCache(
-      sanitizeOllamaTitleCache(cacheData),
+      migrateOllamaTitleCache(cacheData, getActiveLlmConfig(mergedSettings).model),
       mergedSettings.ollamaTitleCacheMaxEntries
     );
     ollamaTitleCache.set(sanitizedCache);
 
+    autoTitleBudget.set(sanitizeAutoTitleBudget(autoTitleBudgetData));
+    embeddingIndex.set(sanitizeEmbeddingIndex(embeddingIndexData));
+
     const sanitizedCustomTitles = sanitizeCustomListTitles(customTitlesData);
     customListTitles.set(sanitizedCustomTitles);
 
@@ -329,6 +567,7 @@ export default class CalendarPlugin extends Plugin {
       groupOpenState: { ...(vs.groupOpenState ?? {}) },
       dayOpenState: { ...(vs.dayOpenState ?? {}) },
       dayChildOpenState: { ...(vs.dayChildOpenState ?? {}) },
+      listFilters: sanitizeListFilters(vs.listFilters),
     };
   }
 
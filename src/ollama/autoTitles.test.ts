@@ -0,0 +1,84 @@
+import {
+  AutoTitleScheduler,
+  refundAutoTitleBudget,
+  sanitizeAutoTitleBudget,
+  spendAutoTitleBudget,
+} from "src/ollama/autoTitles";
+
+describe("ollama/autoTitles", () => {
+  test("sanitizeAutoTitleBudget", () => {
+    expect(sanitizeAutoTitleBudget({ day: "2025-06-15", used: 3.7 })).toEqual({
+      day: "2025-06-15",
+      used: 3,
+    });
+    expect(sanitizeAutoTitleBudget({ day: "2025-06-15", used: -1 })).toEqual({
+      day: "2025-06-15",
+      used: 0,
+    });
+    expect(sanitizeAutoTitleBudget({ used: 4 })).toEqual({ day: "", used: 0 });
+    expect(sanitizeAutoTitleBudget(null)).toEqual({ day: "", used: 0 });
+  });
+
+  test("spendAutoTitleBudget counts requests per day up to the limit", () => {
+    const first = spendAutoTitleBudget({ day: "", used: 0 }, "2025-06-15", 2);
+    expect(first).toEqual({ day: "2025-06-15", used: 1 });
+
+    const second = spendAutoTitleBudget(first!, "2025-06-15", 2);
+    expect(second).toEqual({ day: "2025-06-15", used: 2 });
+    expect(spendAutoTitleBudget(second!, "2025-06-15", 2)).toBeNull();
+
+    // A new day starts a fresh budget.
+    expect(spendAutoTitleBudget(second!, "2025-06-16", 2)).toEqual({ day: "2025-06-16", used: 1 });
+    expect(spendAutoTitleBudget({ day: "", used: 0 }, "2025-06-16", 0)).toBeNull();
+  });
+
+  test("refundAutoTitleBudget gives back a request from the same day only", () => {
+    expect(refundAutoTitleBudget({ day: "2025-06-15", used: 2 }, "2025-06-15")).toEqual({
+      day: "2025-06-15",
+      used: 1,
+    });
+    expect(refundAutoTitleBudget({ day: "2025-06-15", used: 0 }, "2025-06-15")).toEqual({
+      day: "2025-06-15",
+      used: 0,
+    });
+    expect(refundAutoTitleBudget({ day: "2025-06-15", used: 2 }, "2025-06-16")).toEqual({
+      day: "2025-06-15",
+      used: 2,
+    });
+  });
+
+  describe("AutoTitleScheduler", () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    test("fires once a note has been idle, restarting the timer on each edit", () => {
+      const onIdle = jest.fn();
+      const scheduler = new AutoTitleScheduler({ idleMs: () => 1000, onIdle });
+
+      scheduler.touch("a.md");
+      jest.advanceTimersByTime(800);
+      scheduler.touch("a.md");
+      jest.advanceTimersByTime(800);
+      expect(onIdle).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(200);
+      expect(onIdle).toHaveBeenCalledTimes(1);
+      expect(onIdle).toHaveBeenCalledWith("a.md");
+      expect(scheduler.pendingCount).toBe(0);
+    });
+
+    test("cancel and clear drop pending timers", () => {
+      const onIdle = jest.fn();
+      const scheduler = new AutoTitleScheduler({ idleMs: () => 1000, onIdle });
+
+      scheduler.touch("a.md");
+      scheduler.touch("b.md");
+      scheduler.cancel("a.md");
+      expect(scheduler.pendingCount).toBe(1);
+
+      scheduler.clear();
+      jest.advanceTimersByTime(5000);
+      expect(onIdle).not.toHaveBeenCalled();
+    });
+  });
+});
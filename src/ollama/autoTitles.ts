@@ -0,0 +1,88 @@
+// Requests made by the automatic title mode on `day` (YYYY-MM-DD).
+export type AutoTitleBudget = {
+  day: string;
+  used: number;
+};
+
+export function sanitizeAutoTitleBudget(value: unknown): AutoTitleBudget {
+  if (!value || typeof value !== "object") {
+    return { day: "", used: 0 };
+  }
+
+  const obj = value as Partial<AutoTitleBudget>;
+  const day = typeof obj.day === "string" ? obj.day : "";
+  const used =
+    typeof obj.used === "number" && Number.isFinite(obj.used) && obj.used > 0
+      ? Math.floor(obj.used)
+      : 0;
+
+  return { day, used: day ? used : 0 };
+}
+
+/**
+ * Spend one request from the budget for `day`, which starts from zero on a new day.
+ * Returns the updated budget, or null when `limit` requests were already made.
+ */
+export function spendAutoTitleBudget(
+  budget: AutoTitleBudget,
+  day: string,
+  limit: number
+): AutoTitleBudget | null {
+  const used = budget.day === day ? budget.used : 0;
+  if (!Number.isFinite(limit) || used >= limit) {
+    return null;
+  }
+  return { day, used: used + 1 };
+}
+
+/**
+ * Give back a request spent on `day` whose generation failed. Budgets for other days
+ * are left as they are.
+ */
+export function refundAutoTitleBudget(budget: AutoTitleBudget, day: string): AutoTitleBudget {
+  return budget.day === day && budget.used > 0 ? { day, used: budget.used - 1 } : budget;
+}
+
+export type AutoTitleSchedulerOptions = {
+  // Read on every edit, so changing the setting applies to the next edit
+  idleMs: () => number;
+  onIdle: (path: string) => void;
+};
+
+/**
+ * Per-note idle timers for automatic titles: every edit restarts the note's timer and
+ * `onIdle` fires once the note has been left alone for `idleMs`.
+ */
+export class AutoTitleScheduler {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private options: AutoTitleSchedulerOptions) {}
+
+  get pendingCount(): number {
+    return this.timers.size;
+  }
+
+  touch(path: string): void {
+    this.cancel(path);
+    const timer = setTimeout(() => {
+      this.timers.delete(path);
+      this.options.onIdle(path);
+    }, Math.max(0, this.options.idleMs()));
+    this.timers.set(path, timer);
+  }
+
+  cancel(path: string): void {
+    const timer = this.timers.get(path);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.timers.delete(path);
+    }
+  }
+
+  clear(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+}
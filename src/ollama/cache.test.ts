@@ -1,9 +1,16 @@
 import {
+  isOllamaTitleCacheEntryValid,
+  migrateOllamaTitleCache,
+  needsOllamaTitleHashCheck,
   pruneOllamaTitleCache,
+  renameOllamaTitleCacheEntries,
+  revalidateOllamaTitleCacheEntry,
   sanitizeOllamaTitleCache,
   upsertOllamaTitleCacheEntry,
 } from "src/ollama/cache";
 
+const context = { model: "m1", promptVersion: "" };
+
 describe("ollama/cache", () => {
   describe("sanitizeOllamaTitleCache", () => {
     it("drops invalid entries", () => {
@@ -20,6 +27,24 @@ describe("ollama/cache", () => {
     });
   });
 
+  describe("migrateOllamaTitleCache", () => {
+    it("attributes entries without a model to the active model", () => {
+      const migrated = migrateOllamaTitleCache(
+        {
+          a: { mtime: 1, title: "A" },
+          b: { mtime: 1, title: "B", model: "other", hash: "h" },
+          bad: { mtime: 1 },
+        },
+        "m1"
+      );
+
+      expect(migrated).toEqual({
+        a: { mtime: 1, title: "A", model: "m1" },
+        b: { mtime: 1, title: "B", model: "other", hash: "h" },
+      });
+    });
+  });
+
   describe("pruneOllamaTitleCache", () => {
     it("evicts least recently used entries when exceeding maxEntries", () => {
       const pruned = pruneOllamaTitleCache(
@@ -52,6 +77,88 @@ describe("ollama/cache", () => {
     });
   });
 
+  describe("isOllamaTitleCacheEntryValid", () => {
+    it("requires a title generated for the current mtime", () => {
+      const cache = { "a.md": { mtime: 5, title: "A", model: "m1" } };
+
+      expect(isOllamaTitleCacheEntryValid(cache, "a.md", 5, context)).toBe(true);
+      expect(isOllamaTitleCacheEntryValid(cache, "a.md", 6, context)).toBe(false);
+      expect(isOllamaTitleCacheEntryValid(cache, "b.md", 5, context)).toBe(false);
+      expect(isOllamaTitleCacheEntryValid(null, "a.md", 5, context)).toBe(false);
+    });
+
+    it("requires the title to match the current model and prompt version", () => {
+      const cache = {
+        "a.md": { mtime: 5, title: "A", model: "m1" },
+        "b.md": { mtime: 5, title: "B", model: "m1", promptVersion: "p1" },
+      };
+
+      expect(isOllamaTitleCacheEntryValid(cache, "a.md", 5, { model: "m1", promptVersion: "p1" })).toBe(false);
+      expect(isOllamaTitleCacheEntryValid(cache, "a.md", 5, { model: "m2", promptVersion: "" })).toBe(false);
+      expect(isOllamaTitleCacheEntryValid(cache, "b.md", 5, { model: "m1", promptVersion: "p1" })).toBe(true);
+      expect(isOllamaTitleCacheEntryValid(cache, "b.md", 5, context)).toBe(false);
+    });
+  });
+
+  describe("content hash revalidation", () => {
+    it("only hashes entries from the current model whose mtime moved or that lack a hash", () => {
+      const entry = { mtime: 5, title: "A", model: "m1", hash: "h1" };
+
+      expect(needsOllamaTitleHashCheck(entry, 5, context)).toBe(false);
+      expect(needsOllamaTitleHashCheck(entry, 6, context)).toBe(true);
+      expect(needsOllamaTitleHashCheck({ ...entry, hash: undefined }, 5, context)).toBe(true);
+      expect(needsOllamaTitleHashCheck(entry, 6, { model: "m2", promptVersion: "" })).toBe(false);
+      expect(needsOllamaTitleHashCheck(undefined, 6, context)).toBe(false);
+    });
+
+    it("moves an entry to the new mtime when the content hash still matches", () => {
+      const cache = { "a.md": { mtime: 5, title: "A", model: "m1", hash: "h1" } };
+
+      expect(
+        revalidateOllamaTitleCacheEntry(cache, "a.md", { ...context, hash: "h1", mtime: 9 })
+      ).toEqual({ "a.md": { mtime: 9, title: "A", model: "m1", hash: "h1" } });
+      expect(revalidateOllamaTitleCacheEntry(cache, "a.md", { ...context, hash: "h2", mtime: 9 })).toBe(
+        cache
+      );
+      expect(revalidateOllamaTitleCacheEntry(cache, "a.md", { ...context, hash: "h1", mtime: 5 })).toBe(
+        cache
+      );
+    });
+
+    it("backfills the hash of entries cached before hashing only when the mtime matches", () => {
+      const cache = { "a.md": { mtime: 5, title: "A", model: "m1" } };
+
+      expect(
+        revalidateOllamaTitleCacheEntry(cache, "a.md", { ...context, hash: "h1", mtime: 5 })
+      ).toEqual({ "a.md": { mtime: 5, title: "A", model: "m1", hash: "h1" } });
+      expect(revalidateOllamaTitleCacheEntry(cache, "a.md", { ...context, hash: "h1", mtime: 6 })).toBe(
+        cache
+      );
+    });
+  });
+
+  describe("renameOllamaTitleCacheEntries", () => {
+    it("follows renamed files and folders", () => {
+      const cache = {
+        "Daily/2025-06-15.md": { mtime: 1, title: "A" },
+        "Daily/Old/2025-06-16.md": { mtime: 1, title: "B" },
+        "Dailyish/x.md": { mtime: 1, title: "C" },
+      };
+
+      expect(renameOllamaTitleCacheEntries(cache, "Daily/2025-06-15.md", "Journal/2025-06-15.md")).toEqual({
+        "Journal/2025-06-15.md": { mtime: 1, title: "A" },
+        "Daily/Old/2025-06-16.md": { mtime: 1, title: "B" },
+        "Dailyish/x.md": { mtime: 1, title: "C" },
+      });
+      expect(renameOllamaTitleCacheEntries(cache, "Daily", "Journal")).toEqual({
+        "Journal/2025-06-15.md": { mtime: 1, title: "A" },
+        "Journal/Old/2025-06-16.md": { mtime: 1, title: "B" },
+        "Dailyish/x.md": { mtime: 1, title: "C" },
+      });
+      expect(renameOllamaTitleCacheEntries(cache, "Other.md", "New.md")).toBe(cache);
+    });
+  });
+
   describe("upsertOllamaTitleCacheEntry", () => {
     it("adds/updates an entry and prunes to maxEntries", () => {
       const next = upsertOllamaTitleCacheEntry({
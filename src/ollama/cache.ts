@@ -1,11 +1,24 @@
 export type OllamaTitleCacheEntry = {
+  // File mtime when the title was generated or last revalidated (fast path only)
   mtime: number;
   title: string;
   lastUsed?: number;
+  // Prompt template/output shape the title was generated with ("" or absent: the default)
+  promptVersion?: string;
+  // Hash of the prepared note text the title was generated from
+  hash?: string;
+  // Model that generated the title
+  model?: string;
 };
 
 export type OllamaTitleCache = Record<string, OllamaTitleCacheEntry>;
 
+// What a cached title has to match besides the note content.
+export type OllamaTitleCacheContext = {
+  model: string;
+  promptVersion: string;
+};
+
 export function sanitizeOllamaTitleCache(value: unknown): OllamaTitleCache {
   if (!value || typeof value !== "object") {
     return {};
@@ -34,20 +47,151 @@ export function sanitizeOllamaTitleCache(value: unknown): OllamaTitleCache {
         ? entry.lastUsed
         : undefined;
 
+    const optionalString = (v: unknown): string | undefined =>
+      typeof v === "string" && v ? v : undefined;
+
     out[key] = {
       mtime,
       title: entry.title,
       lastUsed,
+      promptVersion: optionalString(entry.promptVersion),
+      hash: optionalString(entry.hash),
+      model: optionalString(entry.model),
     };
   }
 
   return out;
 }
 
+/**
+ * Sanitize persisted cache data. Entries from before titles recorded their model are
+ * attributed to `model` (the active one), so upgrading keeps them.
+ */
+export function migrateOllamaTitleCache(value: unknown, model: string): OllamaTitleCache {
+  const cache = sanitizeOllamaTitleCache(value);
+  for (const entry of Object.values(cache)) {
+    if (!entry.model && model) {
+      entry.model = model;
+    }
+  }
+  return cache;
+}
+
+function matchesContext(entry: OllamaTitleCacheEntry, context: OllamaTitleCacheContext): boolean {
+  return (
+    (entry.model ?? "") === context.model &&
+    (entry.promptVersion ?? "") === context.promptVersion
+  );
+}
+
+/**
+ * Whether `filePath` has a cached title for its current `mtime`, generated with the
+ * current model and prompt version (editing the title template invalidates older titles).
+ * Titles whose mtime moved on can still be revalidated by content hash.
+ */
+export function isOllamaTitleCacheEntryValid(
+  cache: OllamaTitleCache | null | undefined,
+  filePath: string,
+  mtime: number,
+  context: OllamaTitleCacheContext
+): boolean {
+  const entry = cache?.[filePath];
+  return !!entry && entry.mtime === mtime && !!entry.title && matchesContext(entry, context);
+}
+
+/**
+ * Whether the entry was generated with the current model and prompt version but its
+ * mtime no longer matches (or it has no hash yet), so the note text has to be hashed
+ * to tell whether the title still applies.
+ */
+export function needsOllamaTitleHashCheck(
+  entry: OllamaTitleCacheEntry | null | undefined,
+  mtime: number,
+  context: OllamaTitleCacheContext
+): boolean {
+  return !!entry && matchesContext(entry, context) && (entry.mtime !== mtime || !entry.hash);
+}
+
+/**
+ * Reconcile an entry with the note's current content hash. A matching hash moves the
+ * entry to the new `mtime` (sync tools and touch don't cost a regeneration); entries
+ * without a hash adopt it when their mtime still matches. Returns the same object when
+ * nothing changed.
+ */
+export function revalidateOllamaTitleCacheEntry(
+  cache: OllamaTitleCache,
+  filePath: string,
+  current: OllamaTitleCacheContext & { hash: string; mtime: number }
+): OllamaTitleCache {
+  const entry = cache[filePath];
+  if (!entry || !matchesContext(entry, current)) {
+    return cache;
+  }
+
+  if (entry.hash ? entry.hash !== current.hash : entry.mtime !== current.mtime) {
+    return cache;
+  }
+
+  if (entry.hash === current.hash && entry.mtime === current.mtime) {
+    return cache;
+  }
+
+  return {
+    ...cache,
+    [filePath]: { ...entry, mtime: current.mtime, hash: current.hash },
+  };
+}
+
+/**
+ * Move path-keyed entries along with a renamed file, or with every file below a renamed
+ * folder. Returns the same object when nothing moved.
+ */
+export function renamePathKeys<T>(
+  record: Record<string, T>,
+  oldPath: string,
+  newPath: string
+): Record<string, T> {
+  if (!oldPath || oldPath === newPath) {
+    return record;
+  }
+
+  const folderPrefix = `${oldPath}/`;
+  let next: Record<string, T> | null = null;
+
+  for (const [key, entry] of Object.entries(record)) {
+    let target: string | null = null;
+    if (key === oldPath) {
+      target = newPath;
+    } else if (key.startsWith(folderPrefix)) {
+      target = `${newPath}/${key.slice(folderPrefix.length)}`;
+    }
+    if (target === null) {
+      continue;
+    }
+
+    next = next ?? { ...record };
+    delete next[key];
+    next[target] = entry;
+  }
+
+  return next ?? record;
+}
+
+/**
+ * Move cached titles along with a renamed file or folder.
+ */
+export function renameOllamaTitleCacheEntries(
+  cache: OllamaTitleCache,
+  oldPath: string,
+  newPath: string
+): OllamaTitleCache {
+  return renamePathKeys(cache, oldPath, newPath);
+}
+
 export function upsertOllamaTitleCacheEntry(args: {
   cache: OllamaTitleCache;
   filePath: string;
-  entry: { mtime: number; title: string };
+  entry: { mtime: number; title: string; promptVersion?: string; hash?: string; model?: string };
   maxEntries?: number;
   nowMs?: number;
 }): OllamaTitleCache {
@@ -58,6 +202,9 @@ export function upsertOllamaTitleCacheEntry(args: {
       mtime: args.entry.mtime,
       title: args.entry.title,
       lastUsed: now,
+      promptVersion: args.entry.promptVersion || undefined,
+      hash: args.entry.hash || undefined,
+      model: args.entry.model || undefined,
     },
   };
 
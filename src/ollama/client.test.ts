@@ -1,7 +1,11 @@
 import { requestUrl } from "obsidian";
 
 import {
+  createNdjsonParser,
   createOllamaClient,
+  describeOllamaModel,
+  formatOllamaModelSize,
+  getOllamaPullPercent,
   normalizeOllamaBaseUrl,
   safeParseJson,
 } from "src/ollama/client";
@@ -10,6 +14,45 @@ jest.mock("obsidian", () => ({
   requestUrl: jest.fn(),
 }));
 
+type Read = { done: boolean; value?: Uint8Array };
+
+// A fake fetch whose body yields the given chunks; `null` chunks never resolve.
+const fakeFetch = (chunks: Array<string | null>, status = 200) => {
+  const encoder = new TextEncoder();
+  const calls: Array<{ url: string; body: string; signal: AbortSignal }> = [];
+
+  const fetch = jest.fn((url: string, init: { body: string; signal: AbortSignal }) => {
+    calls.push({ url, body: init.body, signal: init.signal });
+    let i = 0;
+    return Promise.resolve({
+      ok: status < 400,
+      status,
+      text: () => Promise.resolve("bad model"),
+      body: {
+        getReader: () => ({
+          read: () => {
+            if (i >= chunks.length) {
+              return Promise.resolve<Read>({ done: true });
+            }
+            const chunk = chunks[i++];
+            if (chunk === null) {
+              return new Promise<Read>((_resolve, reject) => {
+                if (init.signal.aborted) {
+                  reject(new Error("AbortError"));
+                }
+                init.signal.addEventListener("abort", () => reject(new Error("AbortError")));
+              });
+            }
+            return Promise.resolve<Read>({ done: false, value: encoder.encode(chunk) });
+          },
+        }),
+      },
+    });
+  });
+
+  return { fetch, calls };
+};
+
 describe("ollama/client", () => {
   describe("normalizeOllamaBaseUrl", () => {
     it("defaults to localhost when empty", () => {
@@ -81,6 +124,215 @@ describe("ollama/client", () => {
         "Ollama error (500) at /api/version: boom"
       );
     });
+
+    it("embeds a batch of inputs through /api/embed", async () => {
+      requestUrlMock.mockResolvedValue({
+        status: 200,
+        headers: {},
+        arrayBuffer: new ArrayBuffer(0),
+        json: { model: "nomic-embed-text", embeddings: [[0.1, 0.2], [0.3, 0.4]] },
+        text: "",
+      });
+
+      const client = createOllamaClient({ baseUrl: "http://127.0.0.1:11434", timeoutMs: 1000 });
+      await expect(client.embed("nomic-embed-text", ["a", "b"])).resolves.toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+
+      const firstCall = requestUrlMock.mock.calls[0]?.[0] as { url: string; body: string };
+      expect(firstCall.url).toBe("http://127.0.0.1:11434/api/embed");
+      expect(JSON.parse(firstCall.body)).toEqual({ model: "nomic-embed-text", input: ["a", "b"] });
+
+      await expect(client.embed("nomic-embed-text", ["a"])).rejects.toThrow(
+        "Ollama returned 2 embeddings for 1 inputs."
+      );
+    });
+  });
+
+  describe("createNdjsonParser", () => {
+    it("parses lines split across chunks and a trailing line on flush", () => {
+      const values: unknown[] = [];
+      const parser = createNdjsonParser((v) => values.push(v));
+
+      parser.push('{"a":1}\n{"a"');
+      parser.push(':2}\n\n{"a":3}');
+      expect(values).toEqual([{ a: 1 }, { a: 2 }]);
+
+      parser.flush();
+      expect(values).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+    });
+  });
+
+  describe("generateStream", () => {
+    it("streams tokens and resolves with the full response", async () => {
+      const { fetch, calls } = fakeFetch([
+        '{"response":"Hel","done":false}\n{"resp',
+        'onse":"lo","done":false}\n',
+        '{"response":"","done":true,"total_duration":5}\n',
+      ]);
+      const client = createOllamaClient({ baseUrl: "http://127.0.0.1:11434/api", fetch });
+
+      const tokens: string[] = [];
+      const stream = client.generateStream(
+        { model: "m", prompt: "p" },
+        { onToken: (token, text) => tokens.push(`${token}|${text}`) }
+      );
+
+      await expect(stream.response).resolves.toMatchObject({ response: "Hello", done: true });
+      expect(tokens).toEqual(["Hel|Hel", "lo|Hello"]);
+      expect(calls[0].url).toBe("http://127.0.0.1:11434/api/generate");
+      expect(JSON.parse(calls[0].body)).toMatchObject({ model: "m", stream: true });
+    });
+
+    it("rejects on HTTP errors and error chunks", async () => {
+      const failing = createOllamaClient({ baseUrl: "http://x", fetch: fakeFetch([], 404).fetch });
+      await expect(failing.generateStream({ model: "m", prompt: "p" }).response).rejects.toThrow(
+        "Ollama error (404) at /api/generate: bad model"
+      );
+
+      const erroring = createOllamaClient({
+        baseUrl: "http://x",
+        fetch: fakeFetch(['{"error":"model not found"}\n']).fetch,
+      });
+      await expect(erroring.generateStream({ model: "m", prompt: "p" }).response).rejects.toThrow(
+        "model not found"
+      );
+    });
+
+    it("can be aborted through the handle or a signal", async () => {
+      const client = createOllamaClient({ baseUrl: "http://x", fetch: fakeFetch([null]).fetch });
+
+      const stream = client.generateStream({ model: "m", prompt: "p" });
+      await Promise.resolve();
+      stream.abort();
+      await expect(stream.response).rejects.toThrow("Generation cancelled");
+
+      const controller = new AbortController();
+      controller.abort();
+      const preAborted = client.generateStream({ model: "m", prompt: "p" }, { signal: controller.signal });
+      await expect(preAborted.response).rejects.toThrow("Generation cancelled");
+    });
+
+    it("fails after the inactivity timeout, reset by each chunk", async () => {
+      jest.useFakeTimers();
+      try {
+        const client = createOllamaClient({
+          baseUrl: "http://x",
+          timeoutMs: 1000,
+          fetch: fakeFetch(['{"response":"a"}\n', null]).fetch,
+        });
+
+        const tokens: string[] = [];
+        const stream = client.generateStream(
+          { model: "m", prompt: "p" },
+          { onToken: (token) => tokens.push(token) }
+        );
+        const settled = stream.response.catch((err: Error) => err.message);
+
+        await jest.advanceTimersByTimeAsync(900);
+        expect(tokens).toEqual(["a"]);
+        await jest.advanceTimersByTimeAsync(900);
+
+        await expect(settled).resolves.toBe("Ollama stream stalled: no data for 1000ms");
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe("pullModel", () => {
+    it("streams progress and resolves once the pull succeeds", async () => {
+      const { fetch, calls } = fakeFetch([
+        '{"status":"pulling manifest"}\n',
+        '{"status":"pulling abc","digest":"abc","total":200,"completed":50}\n',
+        '{"status":"verifying sha256 digest"}\n{"status":"success"}\n',
+      ]);
+      const client = createOllamaClient({ baseUrl: "http://x", fetch });
+
+      const percents: Array<number | null> = [];
+      await expect(
+        client.pullModel("gemma3:4b", { onProgress: (p) => percents.push(getOllamaPullPercent(p)) })
+      ).resolves.toEqual({ status: "success" });
+
+      expect(percents).toEqual([null, 25, null, null]);
+      expect(calls[0].url).toBe("http://x/api/pull");
+      expect(JSON.parse(calls[0].body)).toEqual({ model: "gemma3:4b", stream: true });
+    });
+
+    it("falls back to a non-streamed requestUrl pull when fetch is blocked", async () => {
+      const requestUrlMock = requestUrl as jest.MockedFunction<typeof requestUrl>;
+      requestUrlMock.mockReset();
+      requestUrlMock.mockResolvedValue({
+        status: 200,
+        headers: {},
+        arrayBuffer: new ArrayBuffer(0),
+        json: { status: "success" },
+        text: '{"status":"success"}',
+      });
+      const client = createOllamaClient({
+        baseUrl: "http://x",
+        fetch: () => Promise.reject(new TypeError("Failed to fetch")),
+      });
+
+      const statuses: Array<string | undefined> = [];
+      await expect(
+        client.pullModel("m", { onProgress: (p) => statuses.push(p.status) })
+      ).resolves.toEqual({ status: "success" });
+
+      expect(statuses).toEqual(["success"]);
+      const call = requestUrlMock.mock.calls[0]?.[0] as { url: string; body: string };
+      expect(call.url).toBe("http://x/api/pull");
+      expect(JSON.parse(call.body)).toEqual({ model: "m", stream: false });
+    });
+
+    it("rejects on error lines, incomplete pulls and cancellation", async () => {
+      const erroring = createOllamaClient({
+        baseUrl: "http://x",
+        fetch: fakeFetch(['{"error":"pull model manifest: file does not exist"}\n']).fetch,
+      });
+      await expect(erroring.pullModel("nope")).rejects.toThrow("file does not exist");
+
+      const truncated = createOllamaClient({
+        baseUrl: "http://x",
+        fetch: fakeFetch(['{"status":"pulling manifest"}\n']).fetch,
+      });
+      await expect(truncated.pullModel("m")).rejects.toThrow("Pull of m ended before it completed.");
+
+      const controller = new AbortController();
+      controller.abort();
+      const stalled = createOllamaClient({ baseUrl: "http://x", fetch: fakeFetch([null]).fetch });
+      await expect(stalled.pullModel("m", { signal: controller.signal })).rejects.toThrow(
+        "Pull cancelled"
+      );
+    });
+  });
+
+  describe("model metadata", () => {
+    it("formats model sizes", () => {
+      expect(formatOllamaModelSize(3_338_801_804)).toBe("3.3 GB");
+      expect(formatOllamaModelSize(274_302_450)).toBe("274 MB");
+      expect(formatOllamaModelSize(512)).toBe("512 B");
+      expect(formatOllamaModelSize(undefined)).toBe("");
+    });
+
+    it("describes the /api/show details worth choosing a model by", () => {
+      expect(
+        describeOllamaModel({
+          details: { family: "gemma3", parameter_size: "4.3B", quantization_level: "Q4_K_M", format: "gguf" },
+          model_info: { "general.architecture": "gemma3", "gemma3.context_length": 131072 },
+          capabilities: ["completion", "vision"],
+        })
+      ).toEqual([
+        ["Family", "gemma3"],
+        ["Parameters", "4.3B"],
+        ["Quantization", "Q4_K_M"],
+        ["Format", "gguf"],
+        ["Context length", "131072"],
+        ["Capabilities", "completion, vision"],
+      ]);
+      expect(describeOllamaModel({})).toEqual([]);
+    });
   });
 
   describe("safeParseJson", () => {
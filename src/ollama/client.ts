@@ -1,20 +1,71 @@
 import { requestUrl } from "obsidian";
+import type { RequestUrlResponse } from "obsidian";
+
+import { createLineParser, defaultFetch, streamLines, withTimeout } from "src/llm/http";
+import type { FetchLike } from "src/llm/http";
+
+export type OllamaModelDetails = {
+  format?: string;
+  family?: string;
+  families?: string[] | null;
+  parameter_size?: string;
+  quantization_level?: string;
+};
+
+export type OllamaModel = {
+  name?: string;
+  // Bytes on disk
+  size?: number;
+  modified_at?: string;
+  details?: OllamaModelDetails;
+};
 
 export type OllamaTagsResponse = {
-  models?: Array<{
-    name?: string;
-  }>;
+  models?: OllamaModel[];
+};
+
+export type OllamaShowResponse = {
+  details?: OllamaModelDetails;
+  // Architecture keys such as `gemma3.context_length`
+  model_info?: Record<string, unknown>;
+  parameters?: string;
+  capabilities?: string[];
+  modified_at?: string;
 };
 
 export type OllamaVersionResponse = {
   version?: string;
 };
 
+export type OllamaEmbedResponse = {
+  model?: string;
+  // One vector per input, in order
+  embeddings?: number[][];
+};
+
 export type OllamaPullResponse = {
   status?: string;
   error?: string;
 };
 
+// One line of a streamed `/api/pull`; `total`/`completed` are bytes of the current layer.
+export type OllamaPullProgress = {
+  status?: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
+};
+
+export type OllamaPullOptions = {
+  onProgress?: (progress: OllamaPullProgress) => void;
+  signal?: AbortSignal;
+  // Defaults to PULL_INACTIVITY_TIMEOUT_MS (verifying large layers can be quiet for a while)
+  inactivityTimeoutMs?: number;
+};
+
+const PULL_INACTIVITY_TIMEOUT_MS = 5 * 60 * 1000;
+
 export type OllamaGenerateRequest = {
   model: string;
   prompt: string;
@@ -29,40 +80,40 @@ export type OllamaGenerateResponse = {
   error?: string;
 };
 
+export type OllamaStreamOptions = {
+  // Called per chunk with the new text and everything received so far
+  onToken?: (token: string, text: string) => void;
+  signal?: AbortSignal;
+  // Fails the request when no chunk arrives for this long (reset on every chunk)
+  inactivityTimeoutMs?: number;
+};
+
+export type OllamaGenerateStream = {
+  // Resolves with the full response text once Ollama reports `done`
+  response: Promise<OllamaGenerateResponse>;
+  abort: () => void;
+};
+
 export type OllamaClient = {
   baseUrl: string;
   timeoutMs?: number;
   getVersion: () => Promise<OllamaVersionResponse>;
   listModels: () => Promise<OllamaTagsResponse>;
-  pullModel: (model: string) => Promise<OllamaPullResponse>;
+  // Streams progress; resolves once Ollama reports `success`
+  pullModel: (model: string, opts?: OllamaPullOptions) => Promise<OllamaPullResponse>;
+  deleteModel: (model: string) => Promise<void>;
+  embed: (model: string, input: string[]) => Promise<number[][]>;
+  showModel: (model: string) => Promise<OllamaShowResponse>;
   generate: (
     req: OllamaGenerateRequest,
     opts?: { timeoutMs?: number }
   ) => Promise<OllamaGenerateResponse>;
+  generateStream: (
+    req: OllamaGenerateRequest,
+    opts?: OllamaStreamOptions
+  ) => OllamaGenerateStream;
 };
 
-function withTimeout<T>(
-  promise: Promise<T>,
-  timeoutMs?: number,
-  label = "request"
-): Promise<T> {
-  if (!timeoutMs || timeoutMs <= 0) {
-    return promise;
-  }
-
-  return Promise.race([
-    promise,
-    new Promise<T>((_resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new Error(`${label} timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      // If the main promise resolves/rejects first, clear the timer.
-      void promise.finally(() => clearTimeout(timer)).catch(() => undefined);
-    }),
-  ]);
-}
-
 export function normalizeOllamaBaseUrl(input: string | null | undefined): string {
   let url = (input ?? "").trim();
   if (!url) {
@@ -91,13 +142,15 @@ function buildApiUrl(baseUrl: string, apiPath: string): string {
   return `${normalized}${fullPath}`;
 }
 
-async function requestJson<T>(args: {
+type RequestArgs = {
   baseUrl: string;
   apiPath: string;
   method: string;
   body?: unknown;
   timeoutMs?: number;
-}): Promise<T> {
+};
+
+async function request(args: RequestArgs): Promise<RequestUrlResponse> {
   const url = buildApiUrl(args.baseUrl, args.apiPath);
 
   const res = await withTimeout(
@@ -122,12 +175,108 @@ async function requestJson<T>(args: {
     throw new Error(`Ollama error (${res.status}) at ${args.apiPath}: ${msg}`);
   }
 
-  return res.json as T;
+  return res;
+}
+
+async function requestJson<T>(args: RequestArgs): Promise<T> {
+  return (await request(args)).json as T;
+}
+
+/**
+ * Incremental parser for newline-delimited JSON (Ollama's streaming format).
+ * Chunks may split lines anywhere; `flush` parses a trailing unterminated line.
+ */
+export function createNdjsonParser<T>(onValue: (value: T) => void): {
+  push: (text: string) => void;
+  flush: () => void;
+} {
+  return createLineParser((line) => onValue(JSON.parse(line) as T));
+}
+
+function streamPull(args: {
+  url: string;
+  model: string;
+  opts: OllamaPullOptions;
+  fetchImpl: FetchLike;
+}): Promise<OllamaPullResponse> {
+  const { opts } = args;
+  let last: OllamaPullProgress = {};
+
+  return streamLines<OllamaPullResponse>({
+    url: args.url,
+    headers: {
+      accept: "application/x-ndjson",
+      "content-type": "application/json",
+    },
+    body: { model: args.model, stream: true },
+    fetchImpl: args.fetchImpl,
+    label: "Ollama",
+    apiPath: "/api/pull",
+    signal: opts.signal,
+    inactivityTimeoutMs: opts.inactivityTimeoutMs ?? PULL_INACTIVITY_TIMEOUT_MS,
+    cancelMessage: "Pull cancelled",
+    onLine: (line) => {
+      const progress = JSON.parse(line) as OllamaPullProgress;
+      if (progress?.error) {
+        throw new Error(progress.error);
+      }
+      last = progress;
+      opts.onProgress?.(progress);
+    },
+    finish: () => {
+      if (last.status !== "success") {
+        throw new Error(`Pull of ${args.model} ended before it completed.`);
+      }
+      return { status: last.status };
+    },
+  }).response;
+}
+
+function streamGenerate(args: {
+  url: string;
+  req: OllamaGenerateRequest;
+  opts: OllamaStreamOptions;
+  fetchImpl: FetchLike;
+}): OllamaGenerateStream {
+  const { url, req, opts, fetchImpl } = args;
+
+  let text = "";
+  let final: OllamaGenerateResponse = {};
+
+  return streamLines<OllamaGenerateResponse>({
+    url,
+    headers: {
+      accept: "application/x-ndjson",
+      "content-type": "application/json",
+    },
+    body: { ...req, stream: true },
+    fetchImpl,
+    label: "Ollama",
+    apiPath: "/api/generate",
+    signal: opts.signal,
+    inactivityTimeoutMs: opts.inactivityTimeoutMs,
+    onLine: (line) => {
+      const chunk = JSON.parse(line) as OllamaGenerateResponse;
+      if (chunk?.error) {
+        throw new Error(chunk.error);
+      }
+      if (chunk?.response) {
+        text += chunk.response;
+        opts.onToken?.(chunk.response, text);
+      }
+      if (chunk?.done) {
+        final = chunk;
+      }
+    },
+    finish: () => ({ ...final, response: text, done: !!final.done }),
+  });
 }
 
 export function createOllamaClient(config: {
   baseUrl: string;
   timeoutMs?: number;
+  // Used for streaming (Obsidian's `requestUrl` can't stream); defaults to `fetch`.
+  fetch?: FetchLike;
 }): OllamaClient {
   return {
     baseUrl: config.baseUrl,
@@ -151,17 +300,72 @@ export function createOllamaClient(config: {
       });
     },
 
-    pullModel: async (model: string) => {
-      return requestJson<OllamaPullResponse>({
+    pullModel: async (model: string, opts) => {
+      let received = false;
+      try {
+        return await streamPull({
+          url: buildApiUrl(config.baseUrl, "/api/pull"),
+          model,
+          opts: {
+            ...opts,
+            onProgress: (progress) => {
+              received = true;
+              opts?.onProgress?.(progress);
+            },
+          },
+          fetchImpl: config.fetch ?? defaultFetch(),
+        });
+      } catch (err) {
+        // `fetch` can fail where `requestUrl` works (e.g. CORS without OLLAMA_ORIGINS); fall
+        // back to a single non-streaming pull, which only reports completion.
+        if (!(err instanceof TypeError) || received || opts?.signal?.aborted) {
+          throw err;
+        }
+        const res = await requestJson<OllamaPullResponse>({
+          baseUrl: config.baseUrl,
+          apiPath: "/api/pull",
+          method: "POST",
+          body: { model, stream: false },
+          // pulling a model can take a long time; there is no progress to time out on
+          timeoutMs: undefined,
+        });
+        opts?.onProgress?.({ status: res?.status ?? "success" });
+        return res;
+      }
+    },
+
+    deleteModel: async (model: string) => {
+      await request({
+        baseUrl: config.baseUrl,
+        apiPath: "/api/delete",
+        method: "DELETE",
+        body: { model },
+        timeoutMs: config.timeoutMs,
+      });
+    },
+
+    embed: async (model: string, input: string[]) => {
+      const res = await requestJson<OllamaEmbedResponse>({
         baseUrl: config.baseUrl,
-        apiPath: "/api/pull",
+        apiPath: "/api/embed",
         method: "POST",
-        body: {
-          model,
-          stream: false,
-        },
-        // pulling a model can take a long time; callers should provide a timeout
-        timeoutMs: undefined,
+        body: { model, input },
+        timeoutMs: config.timeoutMs,
+      });
+      const embeddings = res?.embeddings ?? [];
+      if (embeddings.length !== input.length) {
+        throw new Error(`Ollama returned ${embeddings.length} embeddings for ${input.length} inputs.`);
+      }
+      return embeddings;
+    },
+
+    showModel: async (model: string) => {
+      return requestJson<OllamaShowResponse>({
+        baseUrl: config.baseUrl,
+        apiPath: "/api/show",
+        method: "POST",
+        body: { model },
+        timeoutMs: config.timeoutMs,
       });
     },
 
@@ -177,6 +381,18 @@ export function createOllamaClient(config: {
         timeoutMs: opts?.timeoutMs ?? config.timeoutMs,
       });
     },
+
+    generateStream: (req: OllamaGenerateRequest, opts) => {
+      return streamGenerate({
+        url: buildApiUrl(config.baseUrl, "/api/generate"),
+        req,
+        opts: {
+          ...opts,
+          inactivityTimeoutMs: opts?.inactivityTimeoutMs ?? config.timeoutMs,
+        },
+        fetchImpl: config.fetch ?? defaultFetch(),
+      });
+    },
   };
 }
 
@@ -190,6 +406,64 @@ export function isModelInstalled(tags: OllamaTagsResponse, model: string): boole
   return models.some((m) => (m?.name ?? "").toLowerCase() === want);
 }
 
+/**
+ * Percentage of the current pull layer, or null while Ollama reports no byte counts
+ * (manifest, verifying, writing).
+ */
+export function getOllamaPullPercent(progress: OllamaPullProgress | null | undefined): number | null {
+  const total = progress?.total ?? 0;
+  if (!(total > 0)) {
+    return null;
+  }
+  const completed = Math.max(0, Math.min(total, progress?.completed ?? 0));
+  return Math.floor((completed / total) * 100);
+}
+
+export function formatOllamaModelSize(bytes: number | null | undefined): string {
+  if (typeof bytes !== "number" || !Number.isFinite(bytes) || bytes <= 0) {
+    return "";
+  }
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return `${value >= 10 || unit === 0 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Label/value rows for the details of `/api/show` worth choosing a model by.
+ */
+export function describeOllamaModel(show: OllamaShowResponse): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  const details = show?.details ?? {};
+  const info = show?.model_info ?? {};
+
+  const infoValue = (suffix: string): string => {
+    const key = Object.keys(info).find((k) => k.endsWith(suffix));
+    const value = key ? info[key] : undefined;
+    return typeof value === "number" || typeof value === "string" ? String(value) : "";
+  };
+
+  const push = (label: string, value: string | undefined | null) => {
+    if (value) {
+      rows.push([label, value]);
+    }
+  };
+
+  push("Family", details.families?.length ? details.families.join(", ") : details.family);
+  push("Parameters", details.parameter_size);
+  push("Quantization", details.quantization_level);
+  push("Format", details.format);
+  push("Context length", infoValue(".context_length"));
+  push("Embedding length", infoValue(".embedding_length"));
+  push("Capabilities", show?.capabilities?.join(", "));
+
+  return rows;
+}
+
 export function safeParseJson<T = unknown>(text: string): T | null {
   if (!text) {
     return null;
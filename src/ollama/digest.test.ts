@@ -0,0 +1,106 @@
+import {
+  chunkDigestSources,
+  cleanDigestOutput,
+  normalizeDigestDestination,
+  runDigestMapReduce,
+  upsertMarkdownSection,
+  type DigestProgress,
+} from "src/ollama/digest";
+
+const source = (label: string, length: number) => ({ label, text: "x".repeat(length) });
+
+describe("ollama/digest", () => {
+  test("normalizeDigestDestination", () => {
+    expect(normalizeDigestDestination("summary-note")).toBe("summary-note");
+    expect(normalizeDigestDestination("junk")).toBe("weekly-note");
+  });
+
+  test("chunkDigestSources packs sources up to the budget", () => {
+    const chunks = chunkDigestSources(
+      [source("a", 40), source("b", 50), source("c", 120), source("d", 10)],
+      100
+    );
+    expect(chunks.map((c) => c.map((s) => s.label))).toEqual([["a", "b"], ["c"], ["d"]]);
+    expect(chunkDigestSources([source("a", 40)], 0)).toHaveLength(1);
+  });
+
+  test("cleanDigestOutput strips fences and a leading heading", () => {
+    expect(cleanDigestOutput("```markdown\n# Digest\n\nBusy week.\n- one\n```")).toBe(
+      "Busy week.\n- one"
+    );
+    expect(cleanDigestOutput("  - one\n- two ")).toBe("- one\n- two");
+  });
+
+  describe("runDigestMapReduce", () => {
+    test("summarises a small period in one request", async () => {
+      const prompts: string[] = [];
+      const digest = await runDigestMapReduce({
+        periodLabel: "2025-W24",
+        sources: [source("2025-06-09", 10), { label: "2025-06-10", text: "  " }],
+        maxChars: 100,
+        generate: (prompt) => {
+          prompts.push(prompt);
+          return Promise.resolve("Overview.\n- point");
+        },
+      });
+
+      expect(digest).toBe("Overview.\n- point");
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0]).toContain("digest of a journal covering 2025-W24");
+      expect(prompts[0]).toContain("### 2025-06-09");
+      // Empty notes are left out.
+      expect(prompts[0]).not.toContain("2025-06-10");
+    });
+
+    test("maps chunks, then reduces the partial summaries", async () => {
+      const prompts: string[] = [];
+      const progress: DigestProgress[] = [];
+      const digest = await runDigestMapReduce({
+        periodLabel: "2025-06",
+        sources: [source("a", 60), source("b", 60), source("c", 60)],
+        maxChars: 100,
+        generate: (prompt) => {
+          prompts.push(prompt);
+          return Promise.resolve(prompt.includes("digest of") ? "Final" : `- summary ${prompts.length}`);
+        },
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(digest).toBe("Final");
+      expect(prompts).toHaveLength(4);
+      expect(prompts[3]).toContain("### Part 1\n- summary 1");
+      expect(prompts[3]).toContain("### Part 3\n- summary 3");
+      expect(progress[progress.length - 1]).toEqual({ stage: "reduce", done: 1, total: 1 });
+    });
+
+    test("rejects when there is nothing to summarise", async () => {
+      await expect(
+        runDigestMapReduce({
+          periodLabel: "2025-06",
+          sources: [],
+          maxChars: 100,
+          generate: () => Promise.resolve(""),
+        })
+      ).rejects.toThrow("No daily notes with content in this period.");
+    });
+  });
+
+  describe("upsertMarkdownSection", () => {
+    test("appends the section when the heading is missing", () => {
+      expect(upsertMarkdownSection("", "## Digest", "Body")).toBe("## Digest\n\nBody\n");
+      expect(upsertMarkdownSection("# Week\n\nText\n\n", "## Digest", "Body")).toBe(
+        "# Week\n\nText\n\n## Digest\n\nBody\n"
+      );
+    });
+
+    test("replaces the existing section up to the next heading of the same level", () => {
+      const text = "# Week\n## Digest\nold\n### Sub\nold too\n## Notes\nkeep";
+      expect(upsertMarkdownSection(text, "## Digest", "new")).toBe(
+        "# Week\n## Digest\n\nnew\n\n## Notes\nkeep"
+      );
+      expect(upsertMarkdownSection("## Digest\nold", "## Digest", "new")).toBe(
+        "## Digest\n\nnew\n"
+      );
+    });
+  });
+});
@@ -0,0 +1,183 @@
+export type DigestSource = {
+  // Date (YYYY-MM-DD) for daily notes, or a part label for partial summaries
+  label: string;
+  text: string;
+};
+
+export type DigestProgress = {
+  stage: "map" | "reduce";
+  done: number;
+  total: number;
+};
+
+export type DigestDestination = "weekly-note" | "summary-note";
+
+export function normalizeDigestDestination(value: unknown): DigestDestination {
+  return value === "summary-note" ? "summary-note" : "weekly-note";
+}
+
+/**
+ * Split sources into chunks of at most `maxChars` characters of text each.
+ * A single source longer than the budget gets a chunk of its own.
+ */
+export function chunkDigestSources(sources: DigestSource[], maxChars: number): DigestSource[][] {
+  const budget = Number.isFinite(maxChars) && maxChars > 0 ? maxChars : Infinity;
+  const chunks: DigestSource[][] = [];
+
+  let current: DigestSource[] = [];
+  let size = 0;
+  for (const source of sources) {
+    const len = source.text.length;
+    if (current.length && size + len > budget) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(source);
+    size += len;
+  }
+  if (current.length) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function formatSources(sources: DigestSource[]): string[] {
+  return sources.flatMap((s) => [`### ${s.label}`, s.text, ""]);
+}
+
+export function buildDigestMapPrompt(args: {
+  periodLabel: string;
+  sources: DigestSource[];
+}): string {
+  return [
+    `You are summarising part of a journal covering ${args.periodLabel}.`,
+    "Write 3 to 6 Markdown bullet points covering the main events, decisions, progress and open threads.",
+    "Mention dates (YYYY-MM-DD) where they help. Return ONLY the bullet points.",
+    "",
+    "ENTRIES:",
+    ...formatSources(args.sources),
+  ].join("\n");
+}
+
+export function buildDigestReducePrompt(args: {
+  periodLabel: string;
+  sources: DigestSource[];
+}): string {
+  return [
+    `You are writing a digest of a journal covering ${args.periodLabel}.`,
+    "Rules:",
+    "- Start with a 1 to 2 sentence overview paragraph.",
+    "- Follow with at most 8 Markdown bullet points: main events, decisions, progress and open threads.",
+    "- Do not add a heading. Do not mention 'Obsidian' or 'notes'.",
+    "- Return ONLY the digest in Markdown.",
+    "",
+    "ENTRIES:",
+    ...formatSources(args.sources),
+  ].join("\n");
+}
+
+/**
+ * Trim model output to plain Markdown: drops a wrapping code fence and a leading heading.
+ */
+export function cleanDigestOutput(text: string): string {
+  let out = (text ?? "").trim();
+
+  const fence = out.match(/^```[a-z]*\n([\s\S]*?)\n```$/i);
+  if (fence) {
+    out = fence[1].trim();
+  }
+
+  out = out.replace(/^#{1,6}\s[^\n]*\n+/, "");
+  return out.trim();
+}
+
+/**
+ * Summarise sources with a map-reduce pass: chunks that fit `maxChars` are summarised
+ * separately, then the partial summaries are combined (repeatedly, if they still
+ * don't fit) into one digest. A period that fits in one chunk takes a single request.
+ */
+export async function runDigestMapReduce(args: {
+  periodLabel: string;
+  sources: DigestSource[];
+  maxChars: number;
+  generate: (prompt: string) => Promise<string>;
+  onProgress?: (progress: DigestProgress) => void;
+}): Promise<string> {
+  const { periodLabel, maxChars, generate, onProgress } = args;
+
+  const sources = args.sources.filter((s) => s.text.trim());
+  if (!sources.length) {
+    throw new Error("No daily notes with content in this period.");
+  }
+
+  let chunks = chunkDigestSources(sources, maxChars);
+  while (chunks.length > 1) {
+    const partials: DigestSource[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress?.({ stage: "map", done: i, total: chunks.length });
+      const summary = cleanDigestOutput(
+        await generate(buildDigestMapPrompt({ periodLabel, sources: chunks[i] }))
+      );
+      partials.push({ label: `Part ${i + 1}`, text: summary });
+    }
+    onProgress?.({ stage: "map", done: chunks.length, total: chunks.length });
+
+    const next = chunkDigestSources(partials, maxChars);
+    // Guard against summaries that don't shrink (one request per chunk is as small as it gets).
+    if (next.length >= chunks.length) {
+      chunks = [partials];
+      break;
+    }
+    chunks = next;
+  }
+
+  onProgress?.({ stage: "reduce", done: 0, total: 1 });
+  const digest = cleanDigestOutput(
+    await generate(buildDigestReducePrompt({ periodLabel, sources: chunks[0] }))
+  );
+  onProgress?.({ stage: "reduce", done: 1, total: 1 });
+
+  if (!digest) {
+    throw new Error("Model returned an empty digest.");
+  }
+  return digest;
+}
+
+function getHeadingLevel(line: string): number {
+  const match = line.match(/^(#{1,6})\s/);
+  return match ? match[1].length : 0;
+}
+
+/**
+ * Replace the section under `heading` with `body`, or append the section when the
+ * heading isn't present. The section ends at the next heading of the same or higher level.
+ */
+export function upsertMarkdownSection(content: string, heading: string, body: string): string {
+  const lines = content.split("\n");
+  const level = getHeadingLevel(heading) || 2;
+  const start = lines.findIndex((line) => line.trim() === heading.trim());
+
+  if (start === -1) {
+    const base = content.replace(/\s+$/, "");
+    return `${base ? `${base}\n\n` : ""}${heading}\n\n${body.trim()}\n`;
+  }
+
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    const l = getHeadingLevel(lines[i]);
+    if (l && l <= level) {
+      end = i;
+      break;
+    }
+  }
+
+  const after = lines.slice(end);
+  return [
+    ...lines.slice(0, start + 1),
+    "",
+    body.trim(),
+    ...(after.length ? ["", ...after] : [""]),
+  ].join("\n");
+}
@@ -0,0 +1,71 @@
+import {
+  cosineSimilarity,
+  decodeVector,
+  encodeVector,
+  findRelatedDays,
+  isEmbeddingEntryFresh,
+  rankBySimilarity,
+  sanitizeEmbeddingIndex,
+  serializeEmbeddingIndex,
+  type EmbeddingIndex,
+} from "src/ollama/embeddings";
+
+const entry = (vector: number[], model = "m") => ({ mtime: 1, hash: "h", model, vector });
+
+describe("ollama/embeddings", () => {
+  test("vectors round-trip through base64 float32", () => {
+    const encoded = encodeVector([0.5, -1, 0.25]);
+    expect(typeof encoded).toBe("string");
+    expect(decodeVector(encoded)).toEqual([0.5, -1, 0.25]);
+    expect(decodeVector("abc")).toBeNull();
+  });
+
+  test("serialized indexes sanitize back and drop invalid entries", () => {
+    const index: EmbeddingIndex = { "a.md": entry([1, 0]) };
+    const stored = serializeEmbeddingIndex(index);
+    expect(typeof stored["a.md"].vector).toBe("string");
+
+    expect(
+      sanitizeEmbeddingIndex({
+        ...stored,
+        "b.md": { mtime: 1, hash: "h", model: "m", vector: [1, 0] },
+        "c.md": { mtime: "1", hash: "h", model: "m", vector: stored["a.md"].vector },
+      })
+    ).toEqual(index);
+    expect(sanitizeEmbeddingIndex(null)).toEqual({});
+  });
+
+  test("isEmbeddingEntryFresh needs the same model and mtime", () => {
+    expect(isEmbeddingEntryFresh(entry([1]), 1, "m")).toBe(true);
+    expect(isEmbeddingEntryFresh(entry([1]), 2, "m")).toBe(false);
+    expect(isEmbeddingEntryFresh(entry([1]), 1, "other")).toBe(false);
+    expect(isEmbeddingEntryFresh(undefined, 1, "m")).toBe(false);
+  });
+
+  test("cosineSimilarity", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+    expect(cosineSimilarity([1, 0], [1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+
+  test("rankBySimilarity and findRelatedDays rank notes from the same model", () => {
+    const index: EmbeddingIndex = {
+      "a.md": entry([1, 0]),
+      "b.md": entry([0.9, 0.1]),
+      "c.md": entry([0, 1]),
+      "d.md": entry([1, 0], "other"),
+    };
+
+    expect(rankBySimilarity(index, [0, 1], { model: "m", limit: 2 }).map((r) => r.path)).toEqual([
+      "c.md",
+      "b.md",
+    ]);
+    expect(findRelatedDays(index, "a.md", { model: "m", limit: 5, minScore: 0.5 }).map((r) => r.path)).toEqual([
+      "b.md",
+    ]);
+    expect(findRelatedDays(index, "d.md", { model: "m", limit: 5 })).toEqual([]);
+    expect(findRelatedDays(index, "missing.md", { model: "m", limit: 5 })).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+export type EmbeddingIndexEntry = {
+  // File mtime when embedded or last revalidated (fast path only)
+  mtime: number;
+  // Hash of the prepared note text the vector was computed from
+  hash: string;
+  model: string;
+  vector: number[];
+};
+
+// Daily note embeddings keyed by file path
+export type EmbeddingIndex = Record<string, EmbeddingIndexEntry>;
+
+// How entries are persisted: vectors as base64-encoded float32 arrays, about a third of
+// the size of JSON numbers.
+export type StoredEmbeddingIndex = Record<string, Omit<EmbeddingIndexEntry, "vector"> & { vector: string }>;
+
+export type SimilarDay = {
+  path: string;
+  // Cosine similarity, -1 to 1
+  score: number;
+};
+
+export function encodeVector(vector: number[]): string {
+  const bytes = new Uint8Array(Float32Array.from(vector).buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function decodeVector(encoded: string): number[] | null {
+  try {
+    const binary = atob(encoded);
+    if (binary.length % 4 !== 0) {
+      return null;
+    }
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return Array.from(new Float32Array(bytes.buffer));
+  } catch {
+    return null;
+  }
+}
+
+export function sanitizeEmbeddingIndex(value: unknown): EmbeddingIndex {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+
+  const out: EmbeddingIndex = {};
+  for (const [path, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!raw || typeof raw !== "object") {
+      continue;
+    }
+
+    const entry = raw as Partial<Record<keyof EmbeddingIndexEntry, unknown>>;
+    const vector = typeof entry.vector === "string" ? decodeVector(entry.vector) : null;
+    if (
+      !vector?.length ||
+      typeof entry.mtime !== "number" ||
+      !Number.isFinite(entry.mtime) ||
+      typeof entry.hash !== "string" ||
+      typeof entry.model !== "string" ||
+      !entry.model
+    ) {
+      continue;
+    }
+
+    out[path] = { mtime: entry.mtime, hash: entry.hash, model: entry.model, vector };
+  }
+  return out;
+}
+
+export function serializeEmbeddingIndex(index: EmbeddingIndex): StoredEmbeddingIndex {
+  const out: StoredEmbeddingIndex = {};
+  for (const [path, entry] of Object.entries(index)) {
+    out[path] = { ...entry, vector: encodeVector(entry.vector) };
+  }
+  return out;
+}
+
+/**
+ * Whether the entry can be used as is. Otherwise the note has to be hashed: a matching
+ * hash only needs the mtime updated, anything else needs a new embedding.
+ */
+export function isEmbeddingEntryFresh(
+  entry: EmbeddingIndexEntry | null | undefined,
+  mtime: number,
+  model: string
+): boolean {
+  return !!entry && entry.model === model && entry.mtime === mtime;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (!a.length || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Notes in the index ranked by similarity to `vector`, best first. Only entries from
+ * `model` are compared (vectors from different models aren't comparable).
+ */
+export function rankBySimilarity(
+  index: EmbeddingIndex,
+  vector: number[],
+  options: { model: string; limit: number; exclude?: string; minScore?: number }
+): SimilarDay[] {
+  const minScore = options.minScore ?? -1;
+  const ranked: SimilarDay[] = [];
+
+  for (const [path, entry] of Object.entries(index)) {
+    if (path === options.exclude || entry.model !== options.model) {
+      continue;
+    }
+    const score = cosineSimilarity(vector, entry.vector);
+    if (score >= minScore) {
+      ranked.push({ path, score });
+    }
+  }
+
+  ranked.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  return ranked.slice(0, Math.max(0, options.limit));
+}
+
+/**
+ * Days most similar to the note at `path`, or an empty list while it isn't indexed.
+ */
+export function findRelatedDays(
+  index: EmbeddingIndex,
+  path: string,
+  options: { model: string; limit: number; minScore?: number }
+): SimilarDay[] {
+  const entry = index[path];
+  if (!entry || entry.model !== options.model) {
+    return [];
+  }
+  return rankBySimilarity(index, entry.vector, { ...options, exclude: path });
+}
+
+export function formatSimilarity(score: number): string {
+  return `${Math.round(Math.max(0, score) * 100)}%`;
+}
@@ -0,0 +1,117 @@
+import type { TFile } from "obsidian";
+
+import type { ISettings } from "src/settings";
+import { createLlmProvider, getActiveLlmConfig } from "src/llm";
+import { getNoteTags } from "src/ui/sources/tags";
+
+import { safeParseJson } from "./client";
+import { prepareNoteTextForOllama } from "./title";
+import { getTitleOutputSpec, hashString, renderTitlePrompt } from "./titleTemplate";
+
+type TitleSettings = Pick<
+  ISettings,
+  | "llmProvider"
+  | "llmProviders"
+  | "ollamaMaxChars"
+  | "ollamaRequestTimeoutMs"
+  | "titlePromptTemplate"
+  | "titleOutputShape"
+  | "titleCustomSchema"
+  | "titleLabelTemplate"
+>;
+
+export type DailyNoteTitleResult = {
+  prompt: string;
+  // Hash of the prepared note text, see `getDailyNoteTitleInputHash`
+  inputHash: string;
+  // Raw model output
+  output: string;
+  // Null when the output doesn't fit the selected shape
+  label: string | null;
+};
+
+function hashTitleInput(dateStr: string, noteText: string): string {
+  return hashString(`${dateStr}\n${noteText}`);
+}
+
+/**
+ * Hash of what a title is generated from: the date and the note text after
+ * `prepareNoteTextForOllama`. Cached titles stay valid while this is unchanged, even
+ * when the file's mtime moves.
+ */
+export async function getDailyNoteTitleInputHash(
+  file: TFile,
+  dateStr: string,
+  settings: Pick<ISettings, "ollamaMaxChars">
+): Promise<string> {
+  const noteText = prepareNoteTextForOllama(
+    await window.app.vault.cachedRead(file),
+    settings.ollamaMaxChars ?? 8000
+  );
+  return hashTitleInput(dateStr, noteText);
+}
+
+/**
+ * Run the title prompt for one daily note and return the prompt, raw output and label.
+ * Streams the response, so the request timeout only applies between chunks.
+ */
+export async function runDailyNoteTitlePrompt(args: {
+  file: TFile;
+  dateStr: string;
+  settings: TitleSettings;
+  // Receives the raw model output received so far
+  onProgress?: (text: string) => void;
+  signal?: AbortSignal;
+}): Promise<DailyNoteTitleResult> {
+  const { file, dateStr, settings, onProgress, signal } = args;
+
+  const { model } = getActiveLlmConfig(settings);
+  const maxChars = settings.ollamaMaxChars ?? 8000;
+  const spec = getTitleOutputSpec(settings);
+
+  const noteText = prepareNoteTextForOllama(await window.app.vault.cachedRead(file), maxChars);
+  const prompt = renderTitlePrompt(settings.titlePromptTemplate ?? "", {
+    date: dateStr,
+    weekday: window.moment(dateStr, "YYYY-MM-DD").format("dddd"),
+    tags: getNoteTags(file).join(", "),
+    note: noteText,
+    format: spec.instructions,
+  });
+
+  const provider = createLlmProvider(settings);
+  const output = await provider.generate(
+    {
+      model,
+      prompt,
+      schema: spec.schema,
+      temperature: 0.2,
+      maxTokens: spec.maxTokens,
+    },
+    {
+      signal,
+      onToken: (_token, text) => onProgress?.(text),
+    }
+  );
+
+  return {
+    prompt,
+    inputHash: hashTitleInput(dateStr, noteText),
+    output,
+    label: spec.toLabel(safeParseJson(output), dateStr),
+  };
+}
+
+/**
+ * Generate a list title for one daily note with the configured provider, model and
+ * title template. Throws when the server is unreachable, the signal aborts, or the
+ * output can't be parsed.
+ */
+export async function generateDailyNoteTitle(
+  args: Parameters<typeof runDailyNoteTitlePrompt>[0]
+): Promise<{ title: string; inputHash: string }> {
+  const { label, inputHash } = await runDailyNoteTitlePrompt(args);
+  if (!label) {
+    throw new Error("Model output did not match the title format.");
+  }
+  return { title: label, inputHash };
+}
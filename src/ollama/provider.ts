@@ -0,0 +1,86 @@
+import type { FetchLike } from "src/llm/http";
+import type { LlmGenerateRequest, LlmProvider } from "src/llm/provider";
+
+import { createOllamaClient } from "./client";
+import type { OllamaGenerateRequest, OllamaGenerateResponse } from "./client";
+
+/**
+ * Wrap the Ollama client as an `LlmProvider`. Generation streams from `/api/generate`
+ * and falls back to a single `requestUrl` call when `fetch` is blocked.
+ */
+export function createOllamaProvider(config: {
+  baseUrl: string;
+  timeoutMs?: number;
+  fetch?: FetchLike;
+}): LlmProvider {
+  const client = createOllamaClient(config);
+
+  return {
+    id: "ollama",
+    label: "Ollama",
+    baseUrl: client.baseUrl,
+
+    getStatus: async () => {
+      const version = await client.getVersion();
+      const tags = await client.listModels();
+      return {
+        label: version?.version ? `v${version.version}` : "",
+        models: (tags?.models ?? []).map((m) => m?.name ?? "").filter(Boolean),
+      };
+    },
+
+    generate: async (req: LlmGenerateRequest, opts) => {
+      const signal = opts?.signal;
+
+      const request = async (format: unknown): Promise<OllamaGenerateResponse> => {
+        const ollamaReq: OllamaGenerateRequest = {
+          model: req.model,
+          prompt: req.prompt,
+          format,
+          options: {
+            temperature: req.temperature,
+            num_predict: req.maxTokens,
+          },
+        };
+
+        let received = false;
+        try {
+          return await client.generateStream(ollamaReq, {
+            signal,
+            onToken: (token, text) => {
+              received = true;
+              opts?.onToken?.(token, text);
+            },
+          }).response;
+        } catch (err) {
+          // `fetch` can fail where `requestUrl` works (e.g. CORS on mobile); fall back to a
+          // single non-streaming request in that case.
+          if (err instanceof TypeError && !received && !signal?.aborted) {
+            return client.generate(ollamaReq);
+          }
+          throw err;
+        }
+      };
+
+      let res: OllamaGenerateResponse;
+      if (req.schema === undefined) {
+        res = await request(undefined);
+      } else {
+        try {
+          res = await request(req.schema);
+        } catch (err) {
+          if (signal?.aborted) {
+            throw err;
+          }
+          // Some Ollama versions don’t support JSON Schema format; retry with plain JSON.
+          res = await request("json");
+        }
+      }
+
+      if (res?.error) {
+        throw new Error(res.error);
+      }
+      return res?.response ?? "";
+    },
+  };
+}
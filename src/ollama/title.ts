@@ -51,28 +51,7 @@ export function prepareNoteTextForOllama(text: string, maxChars: number): string
   return collapsed.length > maxChars ? collapsed.slice(0, maxChars) : collapsed;
 }
 
-export function buildDailyTitlePrompt(args: {
-  dateStr: string;
-  noteText: string;
-}): string {
-  const dateStr = args.dateStr;
-  const note = args.noteText;
-
-  return [
-    "You are generating a short label for an Obsidian daily note list view.",
-    "Return ONLY valid JSON that matches the provided schema.",
-    "Rules:",
-    "- keywords: exactly 3 single words, lowercase if reasonable, no punctuation.",
-    "- description: exactly 1 short sentence describing the note. Keep it under ~120 characters.",
-    "- Do not mention 'Obsidian', 'note', or the date in the description.",
-    "",
-    `DATE: ${dateStr}`,
-    "NOTE CONTENT:",
-    note,
-  ].join("\n");
-}
-
-function sanitizeWord(word: string): string {
+export function sanitizeWord(word: string): string {
   // Keep letters/numbers, collapse internal whitespace, drop punctuation.
   const cleaned = word
     .replace(/[\r\n\t]+/g, " ")
@@ -85,7 +64,7 @@ function sanitizeWord(word: string): string {
   return cleaned.split(" ")[0] ?? "";
 }
 
-function sanitizeDescription(desc: string): string {
+export function sanitizeDescription(desc: string): string {
   let s = (desc ?? "").replace(/[\r\n\t]+/g, " ").trim();
   s = s.replace(/\s+/g, " ");
 
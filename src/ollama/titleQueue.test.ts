@@ -0,0 +1,102 @@
+import { normalizeTitleQueueConcurrency, TitleQueue, type TitleQueueProgress } from "./titleQueue";
+
+type Deferred = { resolve: () => void; reject: (err: Error) => void };
+
+function createHarness(opts: { concurrency?: number; skip?: string[] } = {}) {
+  const started: string[] = [];
+  const deferreds = new Map<string, Deferred>();
+  const drained: TitleQueueProgress[] = [];
+
+  const queue = new TitleQueue<string>({
+    concurrency: opts.concurrency ?? 2,
+    getKey: (job) => job,
+    shouldSkip: (job) => (opts.skip ?? []).includes(job),
+    run: (job) =>
+      new Promise<void>((resolve, reject) => {
+        started.push(job);
+        deferreds.set(job, { resolve, reject });
+      }),
+    onDrain: (p) => drained.push(p),
+  });
+
+  const finish = async (job: string, err?: Error) => {
+    const d = deferreds.get(job);
+    if (err) {
+      d?.reject(err);
+    } else {
+      d?.resolve();
+    }
+    // Let the queue's promise chain settle.
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+
+  return { queue, started, drained, finish };
+}
+
+describe("ollama/titleQueue", () => {
+  test("normalizeTitleQueueConcurrency clamps to 1..8", () => {
+    expect(normalizeTitleQueueConcurrency(0)).toBe(1);
+    expect(normalizeTitleQueueConcurrency("3")).toBe(3);
+    expect(normalizeTitleQueueConcurrency(20)).toBe(8);
+    expect(normalizeTitleQueueConcurrency("x")).toBe(1);
+  });
+
+  test("runs jobs with bounded concurrency and reports progress", async () => {
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const { queue, started, drained, finish } = createHarness({ concurrency: 2, skip: ["c"] });
+
+    expect(queue.enqueue(["a", "b", "c", "d", "a"])).toBe(4);
+    expect(started).toEqual(["a", "b"]);
+    expect(queue.progress).toMatchObject({ status: "running", total: 4, active: 2 });
+
+    await finish("a");
+    // "c" is skipped (already cached), so "d" starts next.
+    expect(started).toEqual(["a", "b", "d"]);
+    expect(queue.progress.skipped).toBe(1);
+
+    await finish("b", new Error("boom"));
+    await finish("d");
+
+    expect(queue.progress).toMatchObject({
+      status: "idle",
+      total: 4,
+      completed: 2,
+      failed: 1,
+      skipped: 1,
+      active: 0,
+    });
+    expect(drained).toHaveLength(1);
+    errorSpy.mockRestore();
+  });
+
+  test("pause stops new jobs until resumed", async () => {
+    const { queue, started, finish } = createHarness({ concurrency: 1 });
+
+    queue.enqueue(["a", "b"]);
+    queue.pause();
+    await finish("a");
+    expect(started).toEqual(["a"]);
+    expect(queue.progress.status).toBe("paused");
+
+    queue.resume();
+    expect(started).toEqual(["a", "b"]);
+  });
+
+  test("cancel drops pending jobs and lets running jobs finish", async () => {
+    const { queue, started, drained, finish } = createHarness({ concurrency: 1 });
+
+    queue.enqueue(["a", "b", "c"]);
+    queue.cancel();
+    expect(queue.progress.status).toBe("running");
+
+    await finish("a");
+    expect(started).toEqual(["a"]);
+    expect(queue.progress).toMatchObject({ status: "idle", completed: 1 });
+    expect(drained).toHaveLength(0);
+
+    // A new batch starts with fresh counts.
+    queue.enqueue(["b"]);
+    expect(queue.progress).toMatchObject({ status: "running", total: 1, completed: 0 });
+  });
+});
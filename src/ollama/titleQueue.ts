@@ -0,0 +1,181 @@
+export type TitleQueueStatus = "idle" | "running" | "paused";
+
+export type TitleQueueProgress = {
+  status: TitleQueueStatus;
+  // Jobs accepted since the queue was last idle
+  total: number;
+  completed: number;
+  failed: number;
+  // Jobs that already had a valid cached title when their turn came
+  skipped: number;
+  active: number;
+};
+
+export type TitleQueueOptions<J> = {
+  concurrency: number;
+  getKey: (job: J) => string;
+  run: (job: J) => Promise<void>;
+  // Checked right before a job starts, so titles cached meanwhile are not regenerated.
+  shouldSkip?: (job: J) => boolean;
+  onProgress?: (progress: TitleQueueProgress) => void;
+  // Called once the queue drains (not after `cancel`).
+  onDrain?: (progress: TitleQueueProgress) => void;
+};
+
+export function normalizeTitleQueueConcurrency(value: unknown): number {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) {
+    return 1;
+  }
+  return Math.max(1, Math.min(8, Math.floor(n)));
+}
+
+/**
+ * Background queue for batch title generation. Jobs run `concurrency` at a time;
+ * pausing stops new jobs from starting and cancelling drops the pending ones
+ * (jobs already running are allowed to finish).
+ */
+export class TitleQueue<J> {
+  private pending: J[] = [];
+  private keys = new Set<string>();
+  private status: TitleQueueStatus = "idle";
+  private active = 0;
+  private total = 0;
+  private completed = 0;
+  private failed = 0;
+  private skipped = 0;
+
+  constructor(private options: TitleQueueOptions<J>) {}
+
+  get progress(): TitleQueueProgress {
+    return {
+      status: this.status,
+      total: this.total,
+      completed: this.completed,
+      failed: this.failed,
+      skipped: this.skipped,
+      active: this.active,
+    };
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.options = { ...this.options, concurrency };
+    this.pump();
+  }
+
+  /**
+   * Add jobs (duplicates of queued or running jobs are ignored). Returns the number added.
+   */
+  enqueue(jobs: J[]): number {
+    if (this.status === "idle") {
+      this.resetCounts();
+      this.status = "running";
+    }
+
+    let added = 0;
+    for (const job of jobs) {
+      const key = this.options.getKey(job);
+      if (!key || this.keys.has(key)) {
+        continue;
+      }
+      this.keys.add(key);
+      this.pending.push(job);
+      added++;
+    }
+    this.total += added;
+
+    if (!added && !this.active && !this.pending.length) {
+      this.status = "idle";
+    }
+
+    this.emit();
+    this.pump();
+    return added;
+  }
+
+  pause(): void {
+    if (this.status === "running") {
+      this.status = "paused";
+      this.emit();
+    }
+  }
+
+  resume(): void {
+    if (this.status === "paused") {
+      this.status = "running";
+      this.emit();
+      this.pump();
+    }
+  }
+
+  cancel(): void {
+    for (const job of this.pending) {
+      this.keys.delete(this.options.getKey(job));
+    }
+    this.pending = [];
+
+    if (!this.active) {
+      this.status = "idle";
+    }
+    this.emit();
+  }
+
+  private resetCounts(): void {
+    this.total = 0;
+    this.completed = 0;
+    this.failed = 0;
+    this.skipped = 0;
+  }
+
+  private emit(): void {
+    this.options.onProgress?.(this.progress);
+  }
+
+  private pump(): void {
+    const limit = normalizeTitleQueueConcurrency(this.options.concurrency);
+
+    while (this.status === "running" && this.active < limit && this.pending.length) {
+      const job = this.pending.shift() as J;
+
+      if (this.options.shouldSkip?.(job)) {
+        this.keys.delete(this.options.getKey(job));
+        this.skipped++;
+        continue;
+      }
+
+      this.active++;
+      void this.runJob(job);
+    }
+
+    this.emit();
+    this.checkDrained();
+  }
+
+  private async runJob(job: J): Promise<void> {
+    try {
+      await this.options.run(job);
+      this.completed++;
+    } catch (err) {
+      this.failed++;
+      console.error("[Calendar] Batch title generation failed", err);
+    } finally {
+      this.active--;
+      this.keys.delete(this.options.getKey(job));
+      this.pump();
+    }
+  }
+
+  private checkDrained(): void {
+    if (this.active || this.pending.length || this.status === "idle") {
+      return;
+    }
+
+    // Paused with nothing left to run also counts as done.
+    const wasCancelled = this.total > this.completed + this.failed + this.skipped;
+    this.status = "idle";
+    this.emit();
+    if (!wasCancelled) {
+      this.options.onDrain?.(this.progress);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  DEFAULT_TITLE_CUSTOM_SCHEMA,
+  DEFAULT_TITLE_LABEL_TEMPLATE,
+  DEFAULT_TITLE_PROMPT_TEMPLATE,
+  getTitleOutputSpec,
+  getTitlePromptVersion,
+  renderTemplate,
+  renderTitlePrompt,
+  type TitleTemplateSettings,
+} from "src/ollama/titleTemplate";
+
+const settings = (overrides: Partial<TitleTemplateSettings> = {}): TitleTemplateSettings => ({
+  titlePromptTemplate: DEFAULT_TITLE_PROMPT_TEMPLATE,
+  titleOutputShape: "keywords_description",
+  titleCustomSchema: DEFAULT_TITLE_CUSTOM_SCHEMA,
+  titleLabelTemplate: DEFAULT_TITLE_LABEL_TEMPLATE,
+  ...overrides,
+});
+
+describe("ollama/titleTemplate", () => {
+  test("renderTemplate replaces known variables and keeps unknown ones", () => {
+    expect(renderTemplate("{{date}} / {{ Weekday }} / {{other}}", { date: "d", weekday: "w" })).toBe(
+      "d / w / {{other}}"
+    );
+  });
+
+  test("renderTitlePrompt falls back to the default template", () => {
+    const vars = { date: "2025-06-15", weekday: "Sunday", tags: "#a", note: "Body", format: "- x" };
+    const prompt = renderTitlePrompt("  ", vars);
+    expect(prompt).toContain("DATE: 2025-06-15");
+    expect(prompt).toContain("Rules:\n- x\n");
+    expect(prompt).toContain("NOTE CONTENT:\nBody");
+
+    expect(renderTitlePrompt("{{weekday}} {{tags}}: {{note}}", vars)).toBe("Sunday #a: Body");
+  });
+
+  test("built-in shapes format labels and reject output that doesn't fit", () => {
+    const dateStr = "2025-06-15";
+
+    expect(
+      getTitleOutputSpec(settings()).toLabel(
+        { keywords: ["Beach", "swim", "sun!"], description: "A day at the sea." },
+        dateStr
+      )
+    ).toBe("2025-06-15 - Beach swim sun - A day at the sea.");
+
+    const keywords = getTitleOutputSpec(settings({ titleOutputShape: "keywords" }));
+    expect(keywords.toLabel({ keywords: ["a", "b", "c", "d"] }, dateStr)).toBe("2025-06-15 - a b c");
+    expect(keywords.toLabel({ keywords: ["a"] }, dateStr)).toBeNull();
+
+    const description = getTitleOutputSpec(settings({ titleOutputShape: "description" }));
+    expect(description.toLabel({ description: " Quiet day. " }, dateStr)).toBe("2025-06-15 - Quiet day.");
+
+    const emoji = getTitleOutputSpec(settings({ titleOutputShape: "emoji_phrase" }));
+    expect(emoji.toLabel({ emoji: "🏖️", phrase: "Beach with friends" }, dateStr)).toBe(
+      "2025-06-15 🏖️ Beach with friends"
+    );
+    expect(emoji.toLabel({ emoji: "🏖️" }, dateStr)).toBeNull();
+  });
+
+  test("custom shape uses the schema and label template", () => {
+    const spec = getTitleOutputSpec(
+      settings({
+        titleOutputShape: "custom",
+        titleCustomSchema: '{"type":"object","properties":{"mood":{"type":"string"},"tags":{"type":"array"}}}',
+        titleLabelTemplate: "{{date}} [{{mood}}] {{tags}} {{missing}}",
+      })
+    );
+
+    expect(spec.schema).toMatchObject({ type: "object" });
+    expect(spec.toLabel({ mood: "calm", tags: ["a", "b"] }, "2025-06-15")).toBe(
+      "2025-06-15 [calm] a b"
+    );
+    expect(spec.toLabel({ other: "x" }, "2025-06-15")).toBeNull();
+    expect(spec.toLabel("nope", "2025-06-15")).toBeNull();
+
+    expect(() =>
+      getTitleOutputSpec(settings({ titleOutputShape: "custom", titleCustomSchema: "{" }))
+    ).toThrow("Custom title schema is not valid JSON");
+  });
+
+  test("getTitlePromptVersion is empty for the defaults and changes with the template", () => {
+    expect(getTitlePromptVersion(settings())).toBe("");
+    expect(getTitlePromptVersion(settings({ titlePromptTemplate: "" }))).toBe("");
+
+    const edited = getTitlePromptVersion(settings({ titlePromptTemplate: "{{note}}" }));
+    expect(edited).toMatch(/^[0-9a-f]{8}$/);
+    expect(getTitlePromptVersion(settings({ titlePromptTemplate: "{{note}}" }))).toBe(edited);
+    expect(getTitlePromptVersion(settings({ titleOutputShape: "keywords" }))).not.toBe("");
+
+    // Custom schema edits only matter for the custom shape.
+    expect(getTitlePromptVersion(settings({ titleOutputShape: "keywords", titleCustomSchema: "{}" }))).toBe(
+      getTitlePromptVersion(settings({ titleOutputShape: "keywords" }))
+    );
+  });
+});
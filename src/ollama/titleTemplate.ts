@@ -0,0 +1,275 @@
+import {
+  DAILY_TITLE_SCHEMA,
+  formatDailyTitleLabel,
+  parseDailyTitleParts,
+  sanitizeDescription,
+  sanitizeWord,
+} from "./title";
+
+export type TitleOutputShape =
+  | "keywords_description"
+  | "keywords"
+  | "description"
+  | "emoji_phrase"
+  | "custom";
+
+export type TitleTemplateSettings = {
+  titlePromptTemplate: string;
+  titleOutputShape: TitleOutputShape;
+  // JSON Schema text, used by the "custom" shape
+  titleCustomSchema: string;
+  // Label built from the custom output, e.g. `{{date}} - {{summary}}`
+  titleLabelTemplate: string;
+};
+
+export type TitleOutputSpec = {
+  schema: unknown;
+  // Replaces `{{format}}` in the prompt template
+  instructions: string;
+  maxTokens: number;
+  // Label for the parsed model output, or null when it doesn't fit the shape
+  toLabel: (value: unknown, dateStr: string) => string | null;
+};
+
+export const TITLE_PROMPT_VARIABLES = ["date", "weekday", "tags", "note", "format"] as const;
+
+export type TitlePromptVariables = Record<(typeof TITLE_PROMPT_VARIABLES)[number], string>;
+
+export const DEFAULT_TITLE_PROMPT_TEMPLATE = [
+  "You are generating a short label for an Obsidian daily note list view.",
+  "Return ONLY valid JSON that matches the provided schema.",
+  "Rules:",
+  "{{format}}",
+  "- Do not mention 'Obsidian', 'note', or the date.",
+  "",
+  "DATE: {{date}}",
+  "NOTE CONTENT:",
+  "{{note}}",
+].join("\n");
+
+export const DEFAULT_TITLE_CUSTOM_SCHEMA = JSON.stringify(
+  {
+    type: "object",
+    required: ["summary"],
+    properties: { summary: { type: "string" } },
+  },
+  null,
+  2
+);
+
+export const DEFAULT_TITLE_LABEL_TEMPLATE = "{{date}} - {{summary}}";
+
+export const TITLE_OUTPUT_SHAPES: Array<{ id: TitleOutputShape; label: string }> = [
+  { id: "keywords_description", label: "3 keywords - description" },
+  { id: "keywords", label: "Keywords only" },
+  { id: "description", label: "Description only" },
+  { id: "emoji_phrase", label: "Emoji + phrase" },
+  { id: "custom", label: "Custom JSON schema" },
+];
+
+export function normalizeTitleOutputShape(value: unknown): TitleOutputShape {
+  return TITLE_OUTPUT_SHAPES.some((s) => s.id === value)
+    ? (value as TitleOutputShape)
+    : "keywords_description";
+}
+
+/**
+ * Replace `{{name}}` placeholders (case-insensitive, inner spaces allowed).
+ * Unknown placeholders are left as they are.
+ */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  const lookup = new Map(Object.entries(vars).map(([k, v]) => [k.toLowerCase(), v]));
+  return template.replace(/{{\s*([\w.-]+)\s*}}/g, (match, name: string) =>
+    lookup.get(name.toLowerCase()) ?? match
+  );
+}
+
+export function renderTitlePrompt(template: string, vars: TitlePromptVariables): string {
+  return renderTemplate(template.trim() ? template : DEFAULT_TITLE_PROMPT_TEMPLATE, vars);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function parseKeywords(value: unknown): string[] | null {
+  const raw = asRecord(value)?.keywords;
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+  const words = raw.map((k) => (typeof k === "string" ? sanitizeWord(k) : "")).filter(Boolean);
+  return words.length >= 3 ? words.slice(0, 3) : null;
+}
+
+function parseString(value: unknown, key: string): string | null {
+  const raw = asRecord(value)?.[key];
+  const text = typeof raw === "string" ? sanitizeDescription(raw) : "";
+  return text || null;
+}
+
+function formatFieldValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(formatFieldValue).filter(Boolean).join(" ");
+  }
+  if (typeof value === "string") {
+    return sanitizeDescription(value);
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return "";
+}
+
+/**
+ * Parse the custom schema text. Throws with a readable message when it isn't a JSON object.
+ */
+export function parseCustomTitleSchema(text: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Custom title schema is not valid JSON: ${msg}`);
+  }
+  const schema = asRecord(parsed);
+  if (!schema) {
+    throw new Error("Custom title schema must be a JSON object.");
+  }
+  return schema;
+}
+
+/**
+ * Schema, prompt instructions and label formatting for the selected output shape.
+ */
+export function getTitleOutputSpec(settings: TitleTemplateSettings): TitleOutputSpec {
+  switch (normalizeTitleOutputShape(settings.titleOutputShape)) {
+    case "keywords":
+      return {
+        schema: {
+          type: "object",
+          additionalProperties: false,
+          required: ["keywords"],
+          properties: {
+            keywords: { type: "array", minItems: 3, maxItems: 3, items: { type: "string" } },
+          },
+        },
+        instructions:
+          "- keywords: exactly 3 single words, lowercase if reasonable, no punctuation.",
+        maxTokens: 60,
+        toLabel: (value, dateStr) => {
+          const keywords = parseKeywords(value);
+          return keywords ? `${dateStr} - ${keywords.join(" ")}` : null;
+        },
+      };
+
+    case "description":
+      return {
+        schema: {
+          type: "object",
+          additionalProperties: false,
+          required: ["description"],
+          properties: { description: { type: "string" } },
+        },
+        instructions:
+          "- description: exactly 1 short sentence describing the day. Keep it under ~120 characters.",
+        maxTokens: 100,
+        toLabel: (value, dateStr) => {
+          const description = parseString(value, "description");
+          return description ? `${dateStr} - ${description}` : null;
+        },
+      };
+
+    case "emoji_phrase":
+      return {
+        schema: {
+          type: "object",
+          additionalProperties: false,
+          required: ["emoji", "phrase"],
+          properties: { emoji: { type: "string" }, phrase: { type: "string" } },
+        },
+        instructions: [
+          "- emoji: a single emoji that fits the day.",
+          "- phrase: 2 to 5 words summarising the day.",
+        ].join("\n"),
+        maxTokens: 60,
+        toLabel: (value, dateStr) => {
+          const emoji = (parseString(value, "emoji") ?? "").split(" ")[0];
+          const phrase = parseString(value, "phrase");
+          return phrase ? `${dateStr} ${emoji ? `${emoji} ` : ""}${phrase}` : null;
+        },
+      };
+
+    case "custom": {
+      const schema = parseCustomTitleSchema(settings.titleCustomSchema);
+      const labelTemplate = settings.titleLabelTemplate.trim() || DEFAULT_TITLE_LABEL_TEMPLATE;
+      return {
+        schema,
+        instructions: "- Fill in every field described by the schema. Keep values short.",
+        maxTokens: 300,
+        toLabel: (value, dateStr) => {
+          const obj = asRecord(value);
+          if (!obj) {
+            return null;
+          }
+          const fields: Record<string, string> = {};
+          for (const [key, field] of Object.entries(obj)) {
+            fields[key] = formatFieldValue(field);
+          }
+          // A label without any output field means the output didn't fit the template.
+          const used = Array.from(labelTemplate.matchAll(/{{\s*([\w.-]+)\s*}}/g), (m) => m[1]);
+          if (!used.some((name) => name.toLowerCase() !== "date" && fields[name])) {
+            return null;
+          }
+          const label = renderTemplate(labelTemplate, { ...fields, date: dateStr })
+            .replace(/{{\s*[\w.-]+\s*}}/g, "")
+            .replace(/\s+/g, " ")
+            .trim();
+          return label || null;
+        },
+      };
+    }
+
+    default:
+      return {
+        schema: DAILY_TITLE_SCHEMA,
+        instructions: [
+          "- keywords: exactly 3 single words, lowercase if reasonable, no punctuation.",
+          "- description: exactly 1 short sentence describing the note. Keep it under ~120 characters.",
+        ].join("\n"),
+        maxTokens: 120,
+        toLabel: (value, dateStr) => {
+          const parts = parseDailyTitleParts(value);
+          return parts ? formatDailyTitleLabel(dateStr, parts) : null;
+        },
+      };
+  }
+}
+
+// FNV-1a, enough to tell template revisions apart.
+export function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Identifies the prompt template and output shape titles are generated with, so cached
+ * titles from another template are regenerated. The default template yields "", which
+ * matches titles cached before templates existed.
+ */
+export function getTitlePromptVersion(settings: TitleTemplateSettings): string {
+  const template = settings.titlePromptTemplate?.trim() ? settings.titlePromptTemplate : "";
+  const shape = normalizeTitleOutputShape(settings.titleOutputShape);
+
+  if ((!template || template === DEFAULT_TITLE_PROMPT_TEMPLATE) && shape === "keywords_description") {
+    return "";
+  }
+
+  const custom = shape === "custom" ? [settings.titleCustomSchema, settings.titleLabelTemplate] : [];
+  return hashString(JSON.stringify([template || DEFAULT_TITLE_PROMPT_TEMPLATE, shape, ...custom]));
+}
@@ -0,0 +1,56 @@
+import { moment as realMoment } from "obsidian";
+import type { moment } from "obsidian";
+
+import {
+  getPeriodicNoteDepth,
+  getPeriodicNotePath,
+  parsePeriodicNotePath,
+} from "./periodicNotePaths";
+
+jest.mock("obsidian", () => ({ moment: jest.requireActual<object>("moment") }));
+
+type Moment = moment.Moment;
+
+// Strict parse on real moment, as the plugin does with `window.moment(value, format, true)`.
+const parse = (value: string, format: string): Moment =>
+  (realMoment as unknown as (v: string, f: string, strict: boolean) => Moment)(value, format, true);
+
+describe("periodicNotePaths", () => {
+  const date = parse("2025-08-14", "YYYY-MM-DD");
+
+  test.each([
+    ["YYYY-MM", "Monthly", "Monthly/2025-08.md", "month"],
+    ["YYYY-[Q]Q", "Periodic/Quarterly", "Periodic/Quarterly/2025-Q3.md", "quarter"],
+    ["YYYY", "", "2025.md", "year"],
+    ["YYYY/MM-MMMM", "Journal/", "Journal/2025/08-August.md", "month"],
+  ] as const)("%s in %j round-trips through %s", (format, folder, path, unit) => {
+    expect(getPeriodicNotePath(date, format, folder)).toBe(path);
+
+    const parsed = parsePeriodicNotePath(path, format, folder, parse);
+    expect(parsed?.isSame(date.clone().startOf(unit))).toBe(true);
+    expect(parsed && getPeriodicNotePath(parsed, format, folder)).toBe(path);
+  });
+
+  test("only matches notes directly in the configured folder", () => {
+    expect(parsePeriodicNotePath("Archive/2025-08.md", "YYYY-MM", "Monthly", parse)).toBeNull();
+    expect(parsePeriodicNotePath("Monthly/old/2025-08.md", "YYYY-MM", "Monthly", parse)).toBeNull();
+    expect(parsePeriodicNotePath("Monthly 2/2025-08.md", "YYYY-MM", "Monthly", parse)).toBeNull();
+  });
+
+  test("without a folder, only matches notes at the vault root", () => {
+    expect(parsePeriodicNotePath("2025-08.md", "YYYY-MM", "", parse)).not.toBeNull();
+    expect(parsePeriodicNotePath("Projects/2025-08.md", "YYYY-MM", "", parse)).toBeNull();
+    expect(parsePeriodicNotePath("Projects/2025.md", "YYYY", "/", parse)).toBeNull();
+  });
+
+  test("rejects non-notes and names that don't format back to themselves", () => {
+    expect(parsePeriodicNotePath("Monthly/2025-08.pdf", "YYYY-MM", "Monthly", parse)).toBeNull();
+    expect(parsePeriodicNotePath("Monthly/2025-8.md", "YYYY-MM", "Monthly", parse)).toBeNull();
+    expect(parsePeriodicNotePath("Monthly/2025-13.md", "YYYY-MM", "Monthly", parse)).toBeNull();
+  });
+
+  test("depth follows the folders nested in the format", () => {
+    expect(getPeriodicNoteDepth("YYYY-MM")).toBe(0);
+    expect(getPeriodicNoteDepth("YYYY/MM/YYYY-MM")).toBe(2);
+  });
+});
@@ -0,0 +1,49 @@
+import type { moment } from "obsidian";
+
+type Moment = moment.Moment;
+
+function trimFolder(folder: string): string {
+  return (folder ?? "").trim().replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Vault path of the periodic note for `date`: `<folder>/<date in format>.md`, or at the
+ * vault root when no folder is set. The format may contain `/` to nest notes in subfolders.
+ */
+export function getPeriodicNotePath(date: Moment, format: string, folder: string): string {
+  const filename = `${date.format(format)}.md`;
+  const dir = trimFolder(folder);
+  return dir ? `${dir}/${filename}` : filename;
+}
+
+/**
+ * How many subfolders below the notes folder a note can sit in (one per `/` in the format).
+ */
+export function getPeriodicNoteDepth(format: string): number {
+  return format.split("/").length - 1;
+}
+
+/**
+ * Inverse of `getPeriodicNotePath`: the date a path stands for, or null when the path is
+ * outside the notes folder or doesn't format back to itself. `parseDate` parses strictly.
+ */
+export function parsePeriodicNotePath(
+  path: string,
+  format: string,
+  folder: string,
+  parseDate: (value: string, format: string) => Moment
+): Moment | null {
+  if (!/\.md$/i.test(path)) {
+    return null;
+  }
+
+  const dir = trimFolder(folder);
+  const prefix = dir ? `${dir}/` : "";
+  if (!path.startsWith(prefix)) {
+    return null;
+  }
+
+  const relative = path.slice(prefix.length, -".md".length);
+  const date = parseDate(relative, format);
+  return date.isValid() && date.format(format) === relative ? date : null;
+}
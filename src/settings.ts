@@ -3,14 +3,71 @@ import type { App } from "obsidian";
 import { appHasDailyNotesPluginLoaded } from "obsidian-daily-notes-interface";
 import type { ILocaleOverride, IWeekStartOption } from "obsidian-calendar-ui";
 
-import { DEFAULT_WEEK_FORMAT, DEFAULT_WORDS_PER_DOT } from "src/constants";
+import {
+  DEFAULT_MONTH_FORMAT,
+  DEFAULT_QUARTER_FORMAT,
+  DEFAULT_WEEK_FORMAT,
+  DEFAULT_WORDS_PER_DOT,
+  DEFAULT_YEAR_FORMAT,
+} from "src/constants";
+
+import { getDefaultLlmProviderSettings } from "src/llm/provider";
+import type { LlmProviderId, LlmProviderSettings } from "src/llm/provider";
+import type { DigestDestination } from "src/ollama/digest";
+import {
+  DEFAULT_TITLE_CUSTOM_SCHEMA,
+  DEFAULT_TITLE_LABEL_TEMPLATE,
+  DEFAULT_TITLE_PROMPT_TEMPLATE,
+  TITLE_OUTPUT_SHAPES,
+  TITLE_PROMPT_VARIABLES,
+} from "src/ollama/titleTemplate";
+import type { TitleOutputShape } from "src/ollama/titleTemplate";
 
 import type CalendarPlugin from "./main";
-import type { ListViewGroupingPreset, ListViewSortOrder } from "./ui/listViewModel";
+import {
+  createCustomGroupingPreset,
+  createListGroupSegment,
+  DEFAULT_SEGMENT_FORMATS,
+  isCustomGroupingPresetId,
+  LIST_GROUP_SEGMENT_KINDS,
+  MAX_GROUP_SEGMENTS,
+  normalizeFiscalStartMonth,
+  sanitizeCustomGroupingPresets,
+  type CustomGroupingPreset,
+  type ListGroupSegment,
+  type ListGroupSegmentKind,
+} from "./ui/customGrouping";
+import {
+  DEFAULT_HEATMAP_THRESHOLDS,
+  formatHeatmapThresholds,
+  HEATMAP_METRICS,
+  normalizeHeatmapMetric,
+  parseHeatmapThresholds,
+  type HeatmapMetric,
+} from "./ui/heatmap";
+import { LIST_ITEM_TAG_COLORS } from "./ui/listItemColorTagMenu";
+import type {
+  ListGroupAggregateKey,
+  ListViewGroupingPreset,
+  ListViewSortKey,
+  ListViewSortOrder,
+} from "./ui/listViewModel";
+import {
+  createPropertyRule,
+  sanitizePropertyRules,
+  type PropertyRule,
+  type PropertyRuleEffect,
+  type PropertyRuleOperator,
+} from "./ui/propertyRules";
+import type { TaskIndicatorStyle } from "./ui/sources/tasks";
+import type { TaskRolloverMode } from "./taskRollover";
 
 export interface ISettings {
   wordsPerDot: number;
+  taskIndicator: TaskIndicatorStyle;
   weekStart: IWeekStartOption;
+  // First month (1-12) of fiscal/academic years; 1 = calendar years
+  fiscalYearStartMonth: number;
   shouldConfirmBeforeCreate: boolean;
 
   // UI state
@@ -25,7 +82,42 @@ export interface ISettings {
   listViewIncludeCreatedDays: boolean;
   listViewGroupingPreset: ListViewGroupingPreset;
   listViewSortOrder: ListViewSortOrder;
+  // Sort key for days inside a group (groups stay chronological)
+  listViewSortKey: ListViewSortKey;
+  // Direction of listViewSortKey; listViewSortOrder only orders groups and dates
+  listViewSortKeyOrder: ListViewSortOrder;
   listViewShowCounts: boolean;
+  // Extra totals on group headers, shown with the counts
+  listViewGroupAggregates: ListGroupAggregateKey[];
+  // User-defined grouping presets, selected by id in listViewGroupingPreset
+  listViewCustomGroupings: CustomGroupingPreset[];
+
+  // Heatmap
+  heatmapEnabled: boolean;
+  heatmapMetric: HeatmapMetric;
+  heatmapFrontmatterKey: string;
+  heatmapThresholds: number[];
+  heatmapShowLegend: boolean;
+
+  // Tags source: where day tags come from
+  tagsIncludeFrontmatter: boolean;
+  tagsIncludeBody: boolean;
+
+  // Frontmatter property → dot colour / cell background / emoji badge
+  propertyRules: PropertyRule[];
+
+  // Roll over unfinished tasks into today's new daily note
+  rolloverTasksEnabled: boolean;
+  rolloverTasksHeading: string;
+  rolloverTasksMode: TaskRolloverMode;
+
+  // Streak statistics
+  showStreakStats: boolean;
+  streakMinWords: number;
+
+  // "On this day" panel
+  showOnThisDay: boolean;
+  onThisDayIncludeWeek: boolean;
 
   // Weekly Note settings
   showWeeklyNote: boolean;
@@ -33,17 +125,66 @@ export interface ISettings {
   weeklyNoteTemplate: string;
   weeklyNoteFolder: string;
 
+  // Monthly / quarterly / yearly note settings
+  showPeriodicNoteHeaders: boolean;
+  monthlyNoteFormat: string;
+  monthlyNoteTemplate: string;
+  monthlyNoteFolder: string;
+  quarterlyNoteFormat: string;
+  quarterlyNoteTemplate: string;
+  quarterlyNoteFolder: string;
+  yearlyNoteFormat: string;
+  yearlyNoteTemplate: string;
+  yearlyNoteFolder: string;
+
   localeOverride: ILocaleOverride;
 
-  // Ollama (local) generated list titles
+  // Generated list titles (local Ollama or an OpenAI-compatible server)
   ollamaTitlesEnabled: boolean;
-  ollamaBaseUrl: string;
-  ollamaModel: string;
+  llmProvider: LlmProviderId;
+  // Server URL, model and API key per provider, so switching back keeps them
+  llmProviders: LlmProviderSettings;
   ollamaMaxChars: number;
   ollamaRequestTimeoutMs: number;
   ollamaTitleCacheMaxEntries: number;
+  // Titles generated in parallel by the batch queue
+  ollamaBatchConcurrency: number;
+  // Title prompt template and output shape (see src/ollama/titleTemplate.ts)
+  titlePromptTemplate: string;
+  titleOutputShape: TitleOutputShape;
+  titleCustomSchema: string;
+  titleLabelTemplate: string;
+  // Queue titles for daily notes left idle or when the day rolls over
+  autoTitlesEnabled: boolean;
+  autoTitleIdleMinutes: number;
+  // Requests the automatic mode may make per day
+  autoTitleDailyBudget: number;
+  // Mirror list titles into a frontmatter property and read them back as labels
+  titleFrontmatterSync: boolean;
+  titleFrontmatterProperty: string;
+  // Related days and semantic search from local Ollama embeddings
+  embeddingsEnabled: boolean;
+  embeddingModel: string;
+  relatedDaysCount: number;
+
+  // AI digests of a week, month or list group
+  digestDestination: DigestDestination;
+  digestHeading: string;
+  // Folder for `Digest <period>` summary notes (vault root when empty)
+  digestFolder: string;
 }
 
+type PeriodicNoteSettingKey =
+  | "monthlyNoteFormat"
+  | "monthlyNoteTemplate"
+  | "monthlyNoteFolder"
+  | "quarterlyNoteFormat"
+  | "quarterlyNoteTemplate"
+  | "quarterlyNoteFolder"
+  | "yearlyNoteFormat"
+  | "yearlyNoteTemplate"
+  | "yearlyNoteFolder";
+
 const weekdays = [
   "sunday",
   "monday",
@@ -57,6 +198,7 @@ const weekdays = [
 export const defaultSettings = Object.freeze({
   shouldConfirmBeforeCreate: true,
   weekStart: "locale" as IWeekStartOption,
+  fiscalYearStartMonth: 1,
 
   // Persist UI state across restarts (list view open, displayed month, list toggles)
   rememberViewState: true,
@@ -66,26 +208,80 @@ export const defaultSettings = Object.freeze({
   listViewZoom: 95,
 
   wordsPerDot: DEFAULT_WORDS_PER_DOT,
+  taskIndicator: "dot" as TaskIndicatorStyle,
 
   listViewMinWords: 0,
   listViewIncludeCreatedDays: true,
   listViewGroupingPreset: "year" as ListViewGroupingPreset,
   listViewSortOrder: "desc" as ListViewSortOrder,
+  listViewSortKey: "date" as ListViewSortKey,
+  listViewSortKeyOrder: "desc" as ListViewSortOrder,
   listViewShowCounts: false,
+  listViewGroupAggregates: [] as ListGroupAggregateKey[],
+  listViewCustomGroupings: [] as CustomGroupingPreset[],
+
+  heatmapEnabled: false,
+  heatmapMetric: "wordCount" as HeatmapMetric,
+  heatmapFrontmatterKey: "",
+  heatmapThresholds: DEFAULT_HEATMAP_THRESHOLDS,
+  heatmapShowLegend: true,
+
+  tagsIncludeFrontmatter: true,
+  tagsIncludeBody: true,
+
+  propertyRules: [] as PropertyRule[],
+
+  rolloverTasksEnabled: false,
+  rolloverTasksHeading: "## Rolled over",
+  rolloverTasksMode: "migrate" as TaskRolloverMode,
+
+  showStreakStats: false,
+  streakMinWords: 0,
+
+  showOnThisDay: false,
+  onThisDayIncludeWeek: false,
 
   showWeeklyNote: false,
   weeklyNoteFormat: "",
   weeklyNoteTemplate: "",
   weeklyNoteFolder: "",
 
+  showPeriodicNoteHeaders: false,
+  monthlyNoteFormat: "",
+  monthlyNoteTemplate: "",
+  monthlyNoteFolder: "",
+  quarterlyNoteFormat: "",
+  quarterlyNoteTemplate: "",
+  quarterlyNoteFolder: "",
+  yearlyNoteFormat: "",
+  yearlyNoteTemplate: "",
+  yearlyNoteFolder: "",
+
   localeOverride: "system-default",
 
   ollamaTitlesEnabled: false,
-  ollamaBaseUrl: "http://127.0.0.1:11434",
-  ollamaModel: "gemma3:4b",
+  llmProvider: "ollama",
+  llmProviders: getDefaultLlmProviderSettings(),
   ollamaMaxChars: 8000,
   ollamaRequestTimeoutMs: 15000,
   ollamaTitleCacheMaxEntries: 1000,
+  ollamaBatchConcurrency: 1,
+  titlePromptTemplate: DEFAULT_TITLE_PROMPT_TEMPLATE,
+  titleOutputShape: "keywords_description" as TitleOutputShape,
+  titleCustomSchema: DEFAULT_TITLE_CUSTOM_SCHEMA,
+  titleLabelTemplate: DEFAULT_TITLE_LABEL_TEMPLATE,
+  autoTitlesEnabled: false,
+  autoTitleIdleMinutes: 10,
+  autoTitleDailyBudget: 20,
+  titleFrontmatterSync: false,
+  titleFrontmatterProperty: "summary",
+  embeddingsEnabled: false,
+  embeddingModel: "nomic-embed-text",
+  relatedDaysCount: 5,
+
+  digestDestination: "weekly-note" as DigestDestination,
+  digestHeading: "## Digest",
+  digestFolder: "",
 });
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -152,11 +348,50 @@ export class CalendarSettingsTab extends PluginSettingTab {
 
     new Setting(this.containerEl).setName("Basic configuration").setHeading();
     this.addDotThresholdSetting();
+    this.addTaskIndicatorSetting();
     this.addWeekStartSetting();
+    this.addFiscalYearStartSetting();
     this.addConfirmCreateSetting();
     this.addRememberViewStateSetting();
     this.addShowWeeklyNoteSetting();
 
+    new Setting(this.containerEl).setName("Heatmap").setHeading();
+    this.addHeatmapSettings();
+
+    new Setting(this.containerEl).setName("Tags").setHeading();
+    this.addTagsSourceSettings();
+
+    new Setting(this.containerEl).setName("Custom list grouping").setHeading();
+    this.addCustomGroupingSettings();
+
+    new Setting(this.containerEl).setName("Property rules").setHeading();
+    this.addPropertyRulesSettings();
+
+    new Setting(this.containerEl).setName("Task rollover").setHeading();
+    this.addRolloverTasksSettings();
+
+    new Setting(this.containerEl).setName("Streaks").setHeading();
+    this.addShowStreakStatsSetting();
+    this.addStreakMinWordsSetting();
+
+    new Setting(this.containerEl).setName("On this day").setHeading();
+    this.addOnThisDaySettings();
+
+    new Setting(this.containerEl).setName("AI title template").setHeading();
+    this.addTitleTemplateSettings();
+
+    new Setting(this.containerEl).setName("Automatic AI titles").setHeading();
+    this.addAutoTitleSettings();
+
+    new Setting(this.containerEl).setName("Titles in frontmatter").setHeading();
+    this.addTitleFrontmatterSettings();
+
+    new Setting(this.containerEl).setName("Related days").setHeading();
+    this.addEmbeddingSettings();
+
+    new Setting(this.containerEl).setName("AI digests").setHeading();
+    this.addDigestSettings();
+
     new Setting(this.containerEl).setName("UI sizing").setHeading();
     this.addCalendarZoomSetting();
     this.addListViewZoomSetting();
@@ -178,6 +413,36 @@ export class CalendarSettingsTab extends PluginSettingTab {
       this.addWeeklyNoteFolderSetting();
     }
 
+    new Setting(this.containerEl).setName("Periodic notes").setHeading();
+    this.addShowPeriodicNoteHeadersSetting();
+    this.addPeriodicNoteSettings({
+      label: "Monthly",
+      defaultFormat: DEFAULT_MONTH_FORMAT,
+      keys: {
+        format: "monthlyNoteFormat",
+        template: "monthlyNoteTemplate",
+        folder: "monthlyNoteFolder",
+      },
+    });
+    this.addPeriodicNoteSettings({
+      label: "Quarterly",
+      defaultFormat: DEFAULT_QUARTER_FORMAT,
+      keys: {
+        format: "quarterlyNoteFormat",
+        template: "quarterlyNoteTemplate",
+        folder: "quarterlyNoteFolder",
+      },
+    });
+    this.addPeriodicNoteSettings({
+      label: "Yearly",
+      defaultFormat: DEFAULT_YEAR_FORMAT,
+      keys: {
+        format: "yearlyNoteFormat",
+        template: "yearlyNoteTemplate",
+        folder: "yearlyNoteFolder",
+      },
+    });
+
     new Setting(this.containerEl).setName("Advanced").setHeading();
     this.addLocaleOverrideSetting();
 
@@ -203,6 +468,27 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
   }
 
+  addTaskIndicatorSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Task indicator")
+      .setDesc("How days with checklist items are marked in the calendar")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("dot", "Dot when tasks are open");
+        dropdown.addOption("ring", "Progress ring (done / total)");
+        dropdown.addOption("fraction", "Fraction (e.g. 3/5)");
+        dropdown.setValue(this.plugin.options.taskIndicator);
+        dropdown.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({
+              taskIndicator: value as TaskIndicatorStyle,
+            }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update task indicator", err)
+            );
+        });
+      });
+  }
+
   addWeekStartSetting(): void {
     const { moment } = window;
 
@@ -233,6 +519,26 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
   }
 
+  addFiscalYearStartSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Fiscal year starts in")
+      .setDesc(
+        "First month of your fiscal or academic year, used by the fiscal list groupings and shown next to the calendar"
+      )
+      .addDropdown((dropdown) => {
+        for (let month = 1; month <= 12; month++) {
+          const name = window.moment().month(month - 1).format("MMMM");
+          dropdown.addOption(String(month), month === 1 ? `${name} (calendar year)` : name);
+        }
+        dropdown.setValue(String(normalizeFiscalStartMonth(this.plugin.options.fiscalYearStartMonth)));
+        dropdown.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ fiscalYearStartMonth: normalizeFiscalStartMonth(value) }))
+            .catch((err) => console.error("[Calendar] Failed to update fiscal year start", err));
+        });
+      });
+  }
+
   addConfirmCreateSetting(): void {
     new Setting(this.containerEl)
       .setName("Confirm before creating new note")
@@ -342,6 +648,900 @@ export class CalendarSettingsTab extends PluginSettingTab {
       });
   }
 
+  addShowPeriodicNoteHeadersSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Open periodic notes from headers")
+      .setDesc(
+        "Click the month, quarter or year in the calendar header (and list group headers) to open or create the matching note"
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.showPeriodicNoteHeaders);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ showPeriodicNoteHeaders: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update periodic note headers setting", err)
+            );
+        });
+      });
+  }
+
+  /**
+   * Format/template/folder settings for monthly, quarterly and yearly notes.
+   * These are ignored when the periodic notes plugin manages that periodicity.
+   */
+  addPeriodicNoteSettings(args: {
+    label: string;
+    defaultFormat: string;
+    keys: {
+      format: PeriodicNoteSettingKey;
+      template: PeriodicNoteSettingKey;
+      folder: PeriodicNoteSettingKey;
+    };
+  }): void {
+    const { label, defaultFormat, keys } = args;
+    const lowerLabel = label.toLowerCase();
+
+    new Setting(this.containerEl)
+      .setName(`${label} note format`)
+      .setDesc("For more syntax help, refer to format reference")
+      .addText((textfield) => {
+        textfield.setValue(this.plugin.options[keys.format]);
+        textfield.setPlaceholder(defaultFormat);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ [keys.format]: value }))
+            .catch((err) =>
+              console.error(`[Calendar] Failed to update ${lowerLabel} note format`, err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName(`${label} note template`)
+      .setDesc(
+        `Choose the file you want to use as the template for your ${lowerLabel} notes`
+      )
+      .addText((textfield) => {
+        textfield.setValue(this.plugin.options[keys.template]);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ [keys.template]: value }))
+            .catch((err) =>
+              console.error(`[Calendar] Failed to update ${lowerLabel} note template`, err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName(`${label} note folder`)
+      .setDesc(`New ${lowerLabel} notes will be placed here`)
+      .addText((textfield) => {
+        textfield.setValue(this.plugin.options[keys.folder]);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ [keys.folder]: value }))
+            .catch((err) =>
+              console.error(`[Calendar] Failed to update ${lowerLabel} note folder`, err)
+            );
+        });
+      });
+  }
+
+  addHeatmapSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Show heatmap")
+      .setDesc("Shade each day in the calendar by the metric below")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.heatmapEnabled);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ heatmapEnabled: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update heatmap setting", err)
+            );
+          this.display(); // show/hide heatmap settings
+        });
+      });
+
+    if (!this.plugin.options.heatmapEnabled) {
+      return;
+    }
+
+    new Setting(this.containerEl)
+      .setName("Heatmap metric")
+      .setDesc("What the shading of each day is based on")
+      .addDropdown((dropdown) => {
+        for (const metric of HEATMAP_METRICS) {
+          dropdown.addOption(metric.value, metric.label);
+        }
+        dropdown.setValue(normalizeHeatmapMetric(this.plugin.options.heatmapMetric));
+        dropdown.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ heatmapMetric: normalizeHeatmapMetric(value) }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update heatmap metric", err)
+            );
+          this.display(); // show/hide the frontmatter property field
+        });
+      });
+
+    if (normalizeHeatmapMetric(this.plugin.options.heatmapMetric) === "frontmatter") {
+      new Setting(this.containerEl)
+        .setName("Frontmatter property")
+        .setDesc("Numeric property read from each daily note, such as a mood score")
+        .addText((textfield) => {
+          textfield.setPlaceholder("Mood");
+          textfield.setValue(this.plugin.options.heatmapFrontmatterKey);
+          textfield.onChange((value) => {
+            void this.plugin
+              .writeOptions(() => ({ heatmapFrontmatterKey: value.trim() }))
+              .catch((err) =>
+                console.error("[Calendar] Failed to update heatmap property", err)
+              );
+          });
+        });
+    }
+
+    new Setting(this.containerEl)
+      .setName("Heatmap thresholds")
+      .setDesc(
+        "Comma-separated values where each shade starts, lowest first (up to 5). Days below the first value stay unshaded."
+      )
+      .addText((textfield) => {
+        textfield.setPlaceholder(formatHeatmapThresholds(DEFAULT_HEATMAP_THRESHOLDS));
+        textfield.setValue(
+          formatHeatmapThresholds(parseHeatmapThresholds(this.plugin.options.heatmapThresholds))
+        );
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ heatmapThresholds: parseHeatmapThresholds(value) }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update heatmap thresholds", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Show heatmap legend")
+      .setDesc("Display the shade scale below the calendar")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.heatmapShowLegend);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ heatmapShowLegend: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update heatmap legend setting", err)
+            );
+        });
+      });
+  }
+
+  addTagsSourceSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Frontmatter tags")
+      .setDesc("Use tags from the daily note's properties (tags: ...) for day styling and list filters")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.tagsIncludeFrontmatter);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ tagsIncludeFrontmatter: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update frontmatter tags setting", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Inline tags")
+      .setDesc("Use #tags written in the body of the daily note, including nested tags like #project/alpha")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.tagsIncludeBody);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ tagsIncludeBody: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update inline tags setting", err)
+            );
+        });
+      });
+  }
+
+  private updatePropertyRules(
+    change: (rules: PropertyRule[]) => PropertyRule[],
+    rerender = false
+  ): void {
+    void this.plugin
+      .writeOptions((old) => ({
+        propertyRules: change(sanitizePropertyRules(old.propertyRules)),
+      }))
+      .catch((err) =>
+        console.error("[Calendar] Failed to update property rules", err)
+      );
+    if (rerender) {
+      this.display();
+    }
+  }
+
+  private updatePropertyRule(id: string, patch: Partial<PropertyRule>, rerender = false): void {
+    this.updatePropertyRules(
+      (rules) => rules.map((r) => (r.id === id ? { ...r, ...patch } : r)),
+      rerender
+    );
+  }
+
+  private updateCustomGroupings(
+    change: (presets: CustomGroupingPreset[]) => CustomGroupingPreset[],
+    rerender = false
+  ): void {
+    void this.plugin
+      .writeOptions((old) => {
+        const presets = change(sanitizeCustomGroupingPresets(old.listViewCustomGroupings));
+        // Don't leave the list grouped by a preset that no longer exists.
+        const selected = old.listViewGroupingPreset;
+        const selectedExists =
+          !isCustomGroupingPresetId(selected) || presets.some((p) => p.id === selected);
+        return {
+          listViewCustomGroupings: presets,
+          ...(selectedExists ? {} : { listViewGroupingPreset: "year" as ListViewGroupingPreset }),
+        };
+      })
+      .catch((err) => console.error("[Calendar] Failed to update custom groupings", err));
+    if (rerender) {
+      this.display();
+    }
+  }
+
+  private updateCustomGroupingSegment(
+    presetId: string,
+    index: number,
+    patch: Partial<ListGroupSegment>,
+    rerender = false
+  ): void {
+    this.updateCustomGroupings(
+      (presets) =>
+        presets.map((p) =>
+          p.id === presetId
+            ? { ...p, segments: p.segments.map((seg, i) => (i === index ? { ...seg, ...patch } : seg)) }
+            : p
+        ),
+      rerender
+    );
+  }
+
+  addCustomGroupingSettings(): void {
+    this.containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text:
+        "Build your own list grouping from levels such as year, month, ISO week, weekday, a fiscal year or quarter, or a frontmatter property, outermost first. Each level takes an optional label format (a moment.js format, or {{value}} for properties). Custom groupings appear in the list view's grouping menu.",
+    });
+
+    const presets = sanitizeCustomGroupingPresets(this.plugin.options.listViewCustomGroupings);
+
+    for (const preset of presets) {
+      new Setting(this.containerEl)
+        .setName("Grouping name")
+        .setClass("calendar-custom-grouping-name")
+        .addText((text) => {
+          text.setValue(preset.name);
+          text.onChange((value) =>
+            this.updateCustomGroupings((all) =>
+              all.map((p) => (p.id === preset.id ? { ...p, name: value.trim() } : p))
+            )
+          );
+        })
+        .addExtraButton((button) => {
+          button.setIcon("trash");
+          button.setTooltip("Delete grouping");
+          button.onClick(() =>
+            this.updateCustomGroupings((all) => all.filter((p) => p.id !== preset.id), true)
+          );
+        });
+
+      preset.segments.forEach((segment, index) => {
+        const setting = new Setting(this.containerEl)
+          .setName(`Level ${index + 1}`)
+          .setClass("calendar-custom-grouping-segment");
+
+        setting.addDropdown((dropdown) => {
+          for (const { kind, label } of LIST_GROUP_SEGMENT_KINDS) {
+            dropdown.addOption(kind, label);
+          }
+          dropdown.setValue(segment.kind);
+          dropdown.onChange((value) =>
+            this.updateCustomGroupingSegment(
+              preset.id,
+              index,
+              { kind: value as ListGroupSegmentKind, format: "" },
+              true
+            )
+          );
+        });
+
+        if (segment.kind === "fiscal_year" || segment.kind === "fiscal_quarter") {
+          setting.addDropdown((dropdown) => {
+            dropdown.addOption("0", "Year start from settings");
+            for (let month = 1; month <= 12; month++) {
+              dropdown.addOption(String(month), window.moment().month(month - 1).format("MMMM"));
+            }
+            dropdown.setValue(String(segment.startMonth));
+            dropdown.onChange((value) =>
+              this.updateCustomGroupingSegment(preset.id, index, { startMonth: Number(value) })
+            );
+          });
+        } else if (segment.kind === "property") {
+          setting.addText((text) => {
+            text.setPlaceholder("Property");
+            text.setValue(segment.property);
+            text.onChange((value) =>
+              this.updateCustomGroupingSegment(preset.id, index, { property: value.trim() })
+            );
+          });
+        }
+
+        setting.addText((text) => {
+          text.setPlaceholder(DEFAULT_SEGMENT_FORMATS[segment.kind]);
+          text.setValue(segment.format);
+          text.onChange((value) => this.updateCustomGroupingSegment(preset.id, index, { format: value }));
+        });
+
+        setting.addExtraButton((button) => {
+          button.setIcon("trash");
+          button.setTooltip("Remove level");
+          button.onClick(() =>
+            this.updateCustomGroupings(
+              (all) =>
+                all.map((p) =>
+                  p.id === preset.id ? { ...p, segments: p.segments.filter((_, i) => i !== index) } : p
+                ),
+              true
+            )
+          );
+        });
+      });
+
+      if (preset.segments.length < MAX_GROUP_SEGMENTS) {
+        new Setting(this.containerEl).addButton((button) => {
+          button.setButtonText("Add level");
+          button.onClick(() =>
+            this.updateCustomGroupings(
+              (all) =>
+                all.map((p) =>
+                  p.id === preset.id
+                    ? { ...p, segments: [...p.segments, createListGroupSegment({ kind: "month" })] }
+                    : p
+                ),
+              true
+            )
+          );
+        });
+      }
+    }
+
+    new Setting(this.containerEl).addButton((button) => {
+      button.setButtonText("Add grouping");
+      button.onClick(() =>
+        this.updateCustomGroupings((all) => [...all, createCustomGroupingPreset()], true)
+      );
+    });
+  }
+
+  addPropertyRulesSettings(): void {
+    this.containerEl.createEl("p", {
+      cls: "setting-item-description",
+      text:
+        "Style days by their daily note's frontmatter properties, such as a green dot when mood is between 4 and 5, or a yellow background when type equals vacation. Rules are checked top to bottom; the first matching background and emoji win.",
+    });
+
+    const rules = sanitizePropertyRules(this.plugin.options.propertyRules);
+
+    rules.forEach((rule, index) => {
+      const setting = new Setting(this.containerEl)
+        .setName(`Rule ${index + 1}`)
+        .setClass("calendar-property-rule-setting");
+
+      setting.addText((text) => {
+        text.setPlaceholder("Property");
+        text.setValue(rule.property);
+        text.onChange((value) => this.updatePropertyRule(rule.id, { property: value.trim() }));
+      });
+
+      setting.addDropdown((dropdown) => {
+        dropdown.addOption("equals", "Equals");
+        dropdown.addOption("range", "Is between");
+        dropdown.addOption("exists", "Is set");
+        dropdown.setValue(rule.operator);
+        dropdown.onChange((value) =>
+          this.updatePropertyRule(rule.id, { operator: value as PropertyRuleOperator }, true)
+        );
+      });
+
+      if (rule.operator === "equals") {
+        setting.addText((text) => {
+          text.setPlaceholder("Value");
+          text.setValue(rule.value);
+          text.onChange((value) => this.updatePropertyRule(rule.id, { value }));
+        });
+      } else if (rule.operator === "range") {
+        const parseBound = (value: string): number | null => {
+          const n = Number(value);
+          return value.trim() && Number.isFinite(n) ? n : null;
+        };
+        setting.addText((text) => {
+          text.setPlaceholder("Min");
+          text.inputEl.type = "number";
+          text.setValue(rule.min === null ? "" : String(rule.min));
+          text.onChange((value) => this.updatePropertyRule(rule.id, { min: parseBound(value) }));
+        });
+        setting.addText((text) => {
+          text.setPlaceholder("Max");
+          text.inputEl.type = "number";
+          text.setValue(rule.max === null ? "" : String(rule.max));
+          text.onChange((value) => this.updatePropertyRule(rule.id, { max: parseBound(value) }));
+        });
+      }
+
+      setting.addDropdown((dropdown) => {
+        dropdown.addOption("dot", "Dot");
+        dropdown.addOption("background", "Background");
+        dropdown.addOption("emoji", "Emoji badge");
+        dropdown.setValue(rule.effect);
+        dropdown.onChange((value) =>
+          this.updatePropertyRule(rule.id, { effect: value as PropertyRuleEffect }, true)
+        );
+      });
+
+      if (rule.effect === "emoji") {
+        setting.addText((text) => {
+          text.setPlaceholder("🏖️");
+          text.setValue(rule.emoji);
+          text.onChange((value) => this.updatePropertyRule(rule.id, { emoji: value.trim() }));
+        });
+      } else {
+        setting.addDropdown((dropdown) => {
+          for (const { label, color } of LIST_ITEM_TAG_COLORS) {
+            dropdown.addOption(color, label);
+          }
+          dropdown.setValue(rule.color || "#3b82f6");
+          dropdown.onChange((value) => this.updatePropertyRule(rule.id, { color: value }));
+        });
+      }
+
+      setting.addExtraButton((button) => {
+        button.setIcon("trash");
+        button.setTooltip("Delete rule");
+        button.onClick(() =>
+          this.updatePropertyRules((all) => all.filter((r) => r.id !== rule.id), true)
+        );
+      });
+    });
+
+    new Setting(this.containerEl).addButton((button) => {
+      button.setButtonText("Add rule");
+      button.onClick(() =>
+        this.updatePropertyRules((all) => [...all, createPropertyRule()], true)
+      );
+    });
+  }
+
+  addRolloverTasksSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Roll over unfinished tasks")
+      .setDesc(
+        "When creating today's daily note, bring over open tasks from the most recent earlier daily note that has any"
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.rolloverTasksEnabled);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ rolloverTasksEnabled: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update task rollover setting", err)
+            );
+          this.display(); // show/hide rollover settings
+        });
+      });
+
+    if (!this.plugin.options.rolloverTasksEnabled) {
+      return;
+    }
+
+    new Setting(this.containerEl)
+      .setName("Rollover heading")
+      .setDesc("Tasks are inserted below this heading, which is added if the new note doesn't have it")
+      .addText((textfield) => {
+        textfield.setPlaceholder(defaultSettings.rolloverTasksHeading);
+        textfield.setValue(this.plugin.options.rolloverTasksHeading);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ rolloverTasksHeading: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update rollover heading", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Previous note")
+      .setDesc("What happens to the tasks in the note they were rolled over from")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("migrate", "Mark them as migrated");
+        dropdown.addOption("move", "Remove them");
+        dropdown.addOption("copy", "Leave unchanged");
+        dropdown.setValue(this.plugin.options.rolloverTasksMode);
+        dropdown.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ rolloverTasksMode: value as TaskRolloverMode }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update rollover mode", err)
+            );
+        });
+      });
+  }
+
+  addShowStreakStatsSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Show streak statistics")
+      .setDesc("Display current/longest streak and completion rates below the calendar")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.showStreakStats);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ showStreakStats: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update streak statistics setting", err)
+            );
+        });
+      });
+  }
+
+  addStreakMinWordsSetting(): void {
+    new Setting(this.containerEl)
+      .setName("Streak minimum words")
+      .setDesc("Only count daily notes with at least this many words towards a streak (0 = any note)")
+      .addText((textfield) => {
+        textfield.setPlaceholder("0");
+        textfield.inputEl.type = "number";
+        textfield.setValue(String(this.plugin.options.streakMinWords));
+        textfield.onChange((value) => {
+          const n = Number(value);
+          void this.plugin
+            .writeOptions(() => ({
+              streakMinWords: Number.isFinite(n) && n > 0 ? Math.floor(n) : 0,
+            }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update streak minimum words", err)
+            );
+        });
+      });
+  }
+
+  addOnThisDaySettings(): void {
+    new Setting(this.containerEl)
+      .setName("Show on this day")
+      .setDesc("List daily notes from today's date in previous years below the calendar")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.showOnThisDay);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ showOnThisDay: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update on this day setting", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Include the same week")
+      .setDesc("Also list notes from the same week number in previous years")
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.onThisDayIncludeWeek);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ onThisDayIncludeWeek: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update on this day week setting", err)
+            );
+        });
+      });
+  }
+
+  addTitleTemplateSettings(): void {
+    const shape = this.plugin.options.titleOutputShape;
+
+    new Setting(this.containerEl)
+      .setName("Output shape")
+      .setDesc("What the model returns and how the list label is built from it")
+      .addDropdown((dropdown) => {
+        for (const option of TITLE_OUTPUT_SHAPES) {
+          dropdown.addOption(option.id, option.label);
+        }
+        dropdown.setValue(shape);
+        dropdown.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ titleOutputShape: value as TitleOutputShape }))
+            .catch((err) => console.error("[Calendar] Failed to update title output shape", err));
+          this.display(); // show/hide custom schema settings
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Prompt template")
+      .setDesc(
+        `Available variables: ${TITLE_PROMPT_VARIABLES.map((v) => `{{${v}}}`).join(", ")}. Changing the template regenerates titles on demand.`
+      )
+      .addTextArea((textarea) => {
+        textarea.inputEl.rows = 10;
+        textarea.inputEl.addClass("calendar-settings-textarea");
+        textarea.setValue(this.plugin.options.titlePromptTemplate);
+        textarea.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ titlePromptTemplate: value }))
+            .catch((err) => console.error("[Calendar] Failed to update title prompt template", err));
+        });
+      })
+      .addExtraButton((button) => {
+        button.setIcon("rotate-ccw");
+        button.setTooltip("Restore the default template");
+        button.onClick(() => {
+          void this.plugin
+            .writeOptions(() => ({ titlePromptTemplate: DEFAULT_TITLE_PROMPT_TEMPLATE }))
+            .then(() => this.display())
+            .catch((err) => console.error("[Calendar] Failed to reset title prompt template", err));
+        });
+      });
+
+    if (shape === "custom") {
+      new Setting(this.containerEl)
+        .setName("Custom schema")
+        .setDesc("JSON schema for the model output")
+        .addTextArea((textarea) => {
+          textarea.inputEl.rows = 8;
+          textarea.inputEl.addClass("calendar-settings-textarea");
+          textarea.setValue(this.plugin.options.titleCustomSchema);
+          textarea.onChange((value) => {
+            void this.plugin
+              .writeOptions(() => ({ titleCustomSchema: value }))
+              .catch((err) => console.error("[Calendar] Failed to update custom title schema", err));
+          });
+        });
+
+      new Setting(this.containerEl)
+        .setName("Label template")
+        .setDesc("Built from the output fields, plus {{date}}")
+        .addText((textfield) => {
+          textfield.setPlaceholder(DEFAULT_TITLE_LABEL_TEMPLATE);
+          textfield.setValue(this.plugin.options.titleLabelTemplate);
+          textfield.onChange((value) => {
+            void this.plugin
+              .writeOptions(() => ({ titleLabelTemplate: value }))
+              .catch((err) => console.error("[Calendar] Failed to update title label template", err));
+          });
+        });
+    }
+
+    let previewEl: HTMLElement | null = null;
+    new Setting(this.containerEl)
+      .setName("Preview")
+      .setDesc("Run the template against the active note without caching the result")
+      .addButton((button) => {
+        button.setButtonText("Preview");
+        button.onClick(async () => {
+          if (!previewEl) {
+            return;
+          }
+          button.setDisabled(true);
+          previewEl.setText("Generating…");
+          try {
+            const result = await this.plugin.previewTitleTemplate();
+            previewEl.setText(
+              `${result.label ?? "(output did not match the shape)"}\n\nRaw output:\n${result.output}`
+            );
+          } catch (err) {
+            previewEl.setText(err instanceof Error ? err.message : String(err));
+          } finally {
+            button.setDisabled(false);
+          }
+        });
+      });
+    previewEl = this.containerEl.createEl("pre", { cls: "calendar-settings-preview" });
+  }
+
+  addAutoTitleSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Generate titles automatically")
+      .setDesc(
+        "Queue a title for a daily note once it hasn't been edited for a while, and for yesterday's note when the day rolls over"
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.autoTitlesEnabled);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ autoTitlesEnabled: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update automatic titles setting", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Idle minutes")
+      .setDesc("How long a daily note has to go without edits before its title is generated")
+      .addText((textfield) => {
+        textfield.setPlaceholder(String(defaultSettings.autoTitleIdleMinutes));
+        textfield.inputEl.type = "number";
+        textfield.setValue(String(this.plugin.options.autoTitleIdleMinutes));
+        textfield.onChange((value) => {
+          const n = Number(value);
+          void this.plugin
+            .writeOptions(() => ({
+              autoTitleIdleMinutes:
+                Number.isFinite(n) && n >= 1 ? n : defaultSettings.autoTitleIdleMinutes,
+            }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update automatic titles idle time", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Daily request budget")
+      .setDesc("Most titles generated automatically per day (0 = none)")
+      .addText((textfield) => {
+        textfield.setPlaceholder(String(defaultSettings.autoTitleDailyBudget));
+        textfield.inputEl.type = "number";
+        textfield.setValue(String(this.plugin.options.autoTitleDailyBudget));
+        textfield.onChange((value) => {
+          const n = Number(value);
+          void this.plugin
+            .writeOptions(() => ({
+              autoTitleDailyBudget: Number.isFinite(n) && n > 0 ? Math.floor(n) : 0,
+            }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update automatic titles budget", err)
+            );
+        });
+      });
+  }
+
+  addTitleFrontmatterSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Write titles to frontmatter")
+      .setDesc(
+        "Store generated and custom list titles in a property of the daily note, so other plugins and search can see them. The property is also read back as the list label."
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.titleFrontmatterSync);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ titleFrontmatterSync: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update frontmatter titles setting", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Title property")
+      .setDesc("Frontmatter property for titles; list properties such as aliases get the title as their first entry")
+      .addText((textfield) => {
+        textfield.setPlaceholder(defaultSettings.titleFrontmatterProperty);
+        textfield.setValue(this.plugin.options.titleFrontmatterProperty);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ titleFrontmatterProperty: value.trim() }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update frontmatter title property", err)
+            );
+        });
+      });
+  }
+
+  addEmbeddingSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Show related days")
+      .setDesc(
+        "Ollama embeds daily notes locally to list days similar to the selected one and search notes by meaning"
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.options.embeddingsEnabled);
+        toggle.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ embeddingsEnabled: value }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update related days setting", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Embedding model")
+      .setDesc("Ollama model used for embeddings; changing it re-embeds every note")
+      .addText((textfield) => {
+        textfield.setPlaceholder(defaultSettings.embeddingModel);
+        textfield.setValue(this.plugin.options.embeddingModel);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ embeddingModel: value.trim() }))
+            .catch((err) => console.error("[Calendar] Failed to update embedding model", err));
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Number of related days")
+      .setDesc("How many similar days to list for the selected day")
+      .addText((textfield) => {
+        textfield.setPlaceholder(String(defaultSettings.relatedDaysCount));
+        textfield.inputEl.type = "number";
+        textfield.setValue(String(this.plugin.options.relatedDaysCount));
+        textfield.onChange((value) => {
+          const n = Number(value);
+          void this.plugin
+            .writeOptions(() => ({
+              relatedDaysCount:
+                Number.isFinite(n) && n >= 1 ? Math.floor(n) : defaultSettings.relatedDaysCount,
+            }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update related days count", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Semantic index")
+      .setDesc("Embed new and changed daily notes now")
+      .addButton((button) => {
+        button.setButtonText("Update");
+        button.onClick(() => void this.plugin.updateSemanticIndex());
+      });
+  }
+
+  addDigestSettings(): void {
+    new Setting(this.containerEl)
+      .setName("Digest destination")
+      .setDesc(
+        "Where summaries from the list view's group menu are written. Uses the model configured for list titles."
+      )
+      .addDropdown((dropdown) => {
+        dropdown.addOption("weekly-note", "Weekly note for weeks, otherwise a summary note");
+        dropdown.addOption("summary-note", "Always a summary note");
+        dropdown.setValue(this.plugin.options.digestDestination);
+        dropdown.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ digestDestination: value as DigestDestination }))
+            .catch((err) =>
+              console.error("[Calendar] Failed to update digest destination", err)
+            );
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Digest heading")
+      .setDesc("The digest replaces the section below this heading, which is added if missing")
+      .addText((textfield) => {
+        textfield.setPlaceholder(defaultSettings.digestHeading);
+        textfield.setValue(this.plugin.options.digestHeading);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ digestHeading: value }))
+            .catch((err) => console.error("[Calendar] Failed to update digest heading", err));
+        });
+      });
+
+    new Setting(this.containerEl)
+      .setName("Summary note folder")
+      .setDesc("Folder for digest notes; leave empty for the vault root")
+      .addText((textfield) => {
+        textfield.setPlaceholder("Digests");
+        textfield.setValue(this.plugin.options.digestFolder);
+        textfield.onChange((value) => {
+          void this.plugin
+            .writeOptions(() => ({ digestFolder: value.trim() }))
+            .catch((err) => console.error("[Calendar] Failed to update digest folder", err));
+        });
+      });
+  }
+
   addCalendarZoomSetting(): void {
     new Setting(this.containerEl)
       .setName("Calendar zoom")
@@ -0,0 +1,98 @@
+import {
+  applyRolloverToSource,
+  findOpenTaskBlocks,
+  insertTasksUnderHeading,
+} from "./taskRollover";
+import { countTasks } from "./ui/taskCounts";
+
+describe("taskRollover", () => {
+  const source = [
+    "# 2025-03-09",
+    "- [x] done",
+    "- [ ] open",
+    "    - [x] child done",
+    "    - note",
+    "1. [/] in progress",
+    "- [-] cancelled",
+    "```",
+    "- [ ] in code",
+    "```",
+    "  - [ ] indented open",
+  ].join("\n");
+
+  describe("findOpenTaskBlocks", () => {
+    test("collects unfinished tasks with their nested children", () => {
+      const blocks = findOpenTaskBlocks(source);
+
+      expect(blocks.map((b) => [b.startLine, b.endLine])).toEqual([
+        [2, 4],
+        [5, 5],
+        [10, 10],
+      ]);
+      expect(blocks[0].lines).toEqual(["- [ ] open", "    - [x] child done", "    - note"]);
+      // Dedented to the task's own indentation.
+      expect(blocks[2].lines).toEqual(["- [ ] indented open"]);
+    });
+
+    test("keeps nested open tasks with their open parent", () => {
+      const blocks = findOpenTaskBlocks(["- [ ] parent", "\t- [ ] child"].join("\n"));
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].lines).toEqual(["- [ ] parent", "\t- [ ] child"]);
+    });
+  });
+
+  describe("applyRolloverToSource", () => {
+    const blocks = findOpenTaskBlocks(source);
+
+    test("marks tasks as migrated", () => {
+      const out = applyRolloverToSource(source, blocks, "migrate").split("\n");
+      expect(out[2]).toBe("- [>] open");
+      expect(out[3]).toBe("    - [x] child done");
+      expect(out[5]).toBe("1. [>] in progress");
+      expect(out[10]).toBe("  - [>] indented open");
+    });
+
+    test("migrates nested open sub-tasks so they don't roll over again", () => {
+      const nested = ["- [ ] parent", "\t- [ ] child", "\t\t- [/] grandchild", "\t- [x] done"].join("\n");
+      const out = applyRolloverToSource(nested, findOpenTaskBlocks(nested), "migrate");
+
+      expect(out.split("\n")).toEqual([
+        "- [>] parent",
+        "\t- [>] child",
+        "\t\t- [>] grandchild",
+        "\t- [x] done",
+      ]);
+      expect(findOpenTaskBlocks(out)).toEqual([]);
+      expect(countTasks(out)).toMatchObject({ open: 0, inProgress: 0 });
+    });
+
+    test("removes tasks and children when moving", () => {
+      const out = applyRolloverToSource(source, blocks, "move");
+      expect(out).not.toContain("open");
+      expect(out).not.toContain("child done");
+      expect(out).toContain("- [ ] in code");
+    });
+
+    test("leaves the source untouched when copying", () => {
+      expect(applyRolloverToSource(source, blocks, "copy")).toBe(source);
+    });
+  });
+
+  describe("insertTasksUnderHeading", () => {
+    test("inserts below an existing heading", () => {
+      const text = ["# Day", "## Rolled over", "## Notes"].join("\n");
+      expect(insertTasksUnderHeading(text, "## Rolled over", ["- [ ] a"])).toBe(
+        ["# Day", "## Rolled over", "- [ ] a", "## Notes"].join("\n")
+      );
+    });
+
+    test("appends the heading when missing", () => {
+      expect(insertTasksUnderHeading("# Day\n\n", "## Rolled over", ["- [ ] a"])).toBe(
+        "# Day\n\n## Rolled over\n- [ ] a\n"
+      );
+      expect(insertTasksUnderHeading("", "## Rolled over", ["- [ ] a"])).toBe(
+        "## Rolled over\n- [ ] a\n"
+      );
+    });
+  });
+});
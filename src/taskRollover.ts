@@ -0,0 +1,147 @@
+export type TaskRolloverMode = "migrate" | "copy" | "move";
+
+export type OpenTaskBlock = {
+  // 0-based, inclusive line range in the source text
+  startLine: number;
+  endLine: number;
+  // Task line plus its nested children, dedented to the task's indentation
+  lines: string[];
+};
+
+// Unfinished = open (`[ ]`) or in progress (`[/]`), in a bullet or numbered list.
+const OPEN_TASK_LINE_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+\[[ /]\]/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+function getIndentWidth(line: string): number {
+  const indent = /^\s*/.exec(line)?.[0] ?? "";
+  return indent.replace(/\t/g, "    ").length;
+}
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+/**
+ * Find unfinished top-most tasks, each with its nested children (sub-tasks,
+ * notes). Open tasks nested under another open task travel with their parent.
+ */
+export function findOpenTaskBlocks(text: string): OpenTaskBlock[] {
+  const lines = splitLines(text);
+  const blocks: OpenTaskBlock[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) {
+      continue;
+    }
+
+    const m = OPEN_TASK_LINE_PATTERN.exec(line);
+    if (!m) {
+      continue;
+    }
+
+    const indent = getIndentWidth(line);
+    let end = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      const next = lines[j];
+      if (!next.trim() || getIndentWidth(next) <= indent) {
+        break;
+      }
+      end = j;
+    }
+
+    const baseIndent = m[1];
+    blocks.push({
+      startLine: i,
+      endLine: end,
+      lines: lines
+        .slice(i, end + 1)
+        .map((l) => (l.startsWith(baseIndent) ? l.slice(baseIndent.length) : l.trimStart())),
+    });
+
+    i = end;
+  }
+
+  return blocks;
+}
+
+/**
+ * Update the source note after its tasks were rolled over:
+ * - `migrate`: mark each rolled-over task and its open sub-tasks as migrated (`[>]`)
+ * - `move`: remove the tasks (and their children)
+ * - `copy`: leave the note untouched
+ */
+export function applyRolloverToSource(
+  text: string,
+  blocks: OpenTaskBlock[],
+  mode: TaskRolloverMode
+): string {
+  if (mode === "copy" || !blocks.length) {
+    return text;
+  }
+
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines = splitLines(text);
+
+  if (mode === "migrate") {
+    // Nested open sub-tasks travelled with their parent, so they are migrated too.
+    for (const block of blocks) {
+      for (let i = block.startLine; i <= block.endLine; i++) {
+        if (OPEN_TASK_LINE_PATTERN.test(lines[i])) {
+          lines[i] = lines[i].replace(/\[[ /]\]/, "[>]");
+        }
+      }
+    }
+    return lines.join(eol);
+  }
+
+  const removed = new Set<number>();
+  for (const block of blocks) {
+    for (let i = block.startLine; i <= block.endLine; i++) {
+      removed.add(i);
+    }
+  }
+  return lines.filter((_line, i) => !removed.has(i)).join(eol);
+}
+
+/**
+ * Insert task lines right below `heading` (e.g. "## Rolled over"), adding the
+ * heading at the end of the note when it isn't there yet.
+ */
+export function insertTasksUnderHeading(
+  text: string,
+  heading: string,
+  taskLines: string[]
+): string {
+  if (!taskLines.length) {
+    return text;
+  }
+
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const lines = text ? splitLines(text) : [];
+  const wanted = heading.trim();
+
+  const headingIndex = wanted ? lines.findIndex((l) => l.trim() === wanted) : -1;
+  if (headingIndex >= 0) {
+    lines.splice(headingIndex + 1, 0, ...taskLines);
+    return lines.join(eol);
+  }
+
+  while (lines.length && !lines[lines.length - 1].trim()) {
+    lines.pop();
+  }
+
+  const section = wanted ? [wanted, ...taskLines] : taskLines;
+  return [...lines, ...(lines.length ? [""] : []), ...section, ""].join(eol);
+}
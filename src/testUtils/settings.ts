@@ -1,3 +1,9 @@
+import { getDefaultLlmProviderSettings } from "src/llm/provider";
+import {
+  DEFAULT_TITLE_CUSTOM_SCHEMA,
+  DEFAULT_TITLE_LABEL_TEMPLATE,
+  DEFAULT_TITLE_PROMPT_TEMPLATE,
+} from "src/ollama/titleTemplate";
 import type { ISettings } from "src/settings";
 
 export function getDefaultSettings(
@@ -7,30 +13,84 @@ export function getDefaultSettings(
     {},
     {
       weekStart: "sunday",
+      fiscalYearStartMonth: 1,
       shouldConfirmBeforeCreate: false,
       rememberViewState: true,
       calendarZoom: 130,
       listViewZoom: 95,
       wordsPerDot: 50,
+      taskIndicator: "dot",
 
       listViewMinWords: 0,
       listViewIncludeCreatedDays: true,
       listViewGroupingPreset: "year",
       listViewSortOrder: "desc",
+      listViewSortKey: "date",
+      listViewSortKeyOrder: "desc",
       listViewShowCounts: false,
+      listViewGroupAggregates: [],
+      listViewCustomGroupings: [],
+
+      heatmapEnabled: false,
+      heatmapMetric: "wordCount",
+      heatmapFrontmatterKey: "",
+      heatmapThresholds: [1, 250, 500, 1000],
+      heatmapShowLegend: true,
+
+      tagsIncludeFrontmatter: true,
+      tagsIncludeBody: true,
+
+      propertyRules: [],
+
+      rolloverTasksEnabled: false,
+      rolloverTasksHeading: "## Rolled over",
+      rolloverTasksMode: "migrate",
+
+      showStreakStats: false,
+      streakMinWords: 0,
+      showOnThisDay: false,
+      onThisDayIncludeWeek: false,
 
       showWeeklyNote: false,
       weeklyNoteFolder: "",
       weeklyNoteFormat: "",
       weeklyNoteTemplate: "",
+
+      showPeriodicNoteHeaders: false,
+      monthlyNoteFormat: "",
+      monthlyNoteTemplate: "",
+      monthlyNoteFolder: "",
+      quarterlyNoteFormat: "",
+      quarterlyNoteTemplate: "",
+      quarterlyNoteFolder: "",
+      yearlyNoteFormat: "",
+      yearlyNoteTemplate: "",
+      yearlyNoteFolder: "",
+
       localeOverride: "system-default",
 
       ollamaTitlesEnabled: false,
-      ollamaBaseUrl: "http://127.0.0.1:11434",
-      ollamaModel: "gemma3:4b",
+      llmProvider: "ollama",
+      llmProviders: getDefaultLlmProviderSettings(),
       ollamaMaxChars: 8000,
       ollamaRequestTimeoutMs: 15000,
       ollamaTitleCacheMaxEntries: 1000,
+      ollamaBatchConcurrency: 1,
+      titlePromptTemplate: DEFAULT_TITLE_PROMPT_TEMPLATE,
+      titleOutputShape: "keywords_description",
+      titleCustomSchema: DEFAULT_TITLE_CUSTOM_SCHEMA,
+      titleLabelTemplate: DEFAULT_TITLE_LABEL_TEMPLATE,
+      autoTitlesEnabled: false,
+      autoTitleIdleMinutes: 10,
+      autoTitleDailyBudget: 20,
+      titleFrontmatterSync: false,
+      titleFrontmatterProperty: "summary",
+      embeddingsEnabled: false,
+      embeddingModel: "nomic-embed-text",
+      relatedDaysCount: 5,
+      digestDestination: "weekly-note",
+      digestHeading: "## Digest",
+      digestFolder: "",
     },
     overrides
   );
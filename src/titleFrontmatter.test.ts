@@ -0,0 +1,57 @@
+import {
+  getFrontmatterTitleValue,
+  normalizeTitleFrontmatterProperty,
+  readFrontmatterTitle,
+  writeFrontmatterTitle,
+} from "./titleFrontmatter";
+
+describe("titleFrontmatter", () => {
+  test("normalizeTitleFrontmatterProperty", () => {
+    expect(normalizeTitleFrontmatterProperty(" aliases ")).toBe("aliases");
+    expect(normalizeTitleFrontmatterProperty("")).toBe("summary");
+    expect(normalizeTitleFrontmatterProperty(undefined)).toBe("summary");
+  });
+
+  test("getFrontmatterTitleValue drops the date prefix", () => {
+    expect(getFrontmatterTitleValue("2025-06-15", "2025-06-15 - beach swim sun - A day.")).toBe(
+      "beach swim sun - A day."
+    );
+    expect(getFrontmatterTitleValue("2025-06-15", "2025-06-15")).toBe("");
+  });
+
+  test("readFrontmatterTitle reads text and list properties", () => {
+    expect(readFrontmatterTitle({ summary: " Beach day " }, "summary")).toBe("Beach day");
+    expect(readFrontmatterTitle({ aliases: ["", "Beach day", "Other"] }, "aliases")).toBe(
+      "Beach day"
+    );
+    expect(readFrontmatterTitle({ summary: 3 }, "summary")).toBeNull();
+    expect(readFrontmatterTitle(null, "summary")).toBeNull();
+  });
+
+  describe("writeFrontmatterTitle", () => {
+    test("sets and clears a text property", () => {
+      const fm: Record<string, unknown> = { summary: "Old" };
+      writeFrontmatterTitle(fm, "summary", "New", "Old");
+      expect(fm).toEqual({ summary: "New" });
+
+      writeFrontmatterTitle(fm, "summary", "", "Other");
+      expect(fm).toEqual({ summary: "New" });
+
+      writeFrontmatterTitle(fm, "summary", "", "New");
+      expect(fm).toEqual({});
+    });
+
+    test("replaces the previous title in a list property and keeps other entries", () => {
+      const fm: Record<string, unknown> = { aliases: ["Mine", "Old"] };
+      writeFrontmatterTitle(fm, "aliases", "New", "Old");
+      expect(fm).toEqual({ aliases: ["New", "Mine"] });
+
+      writeFrontmatterTitle(fm, "aliases", "", "New");
+      expect(fm).toEqual({ aliases: ["Mine"] });
+
+      const empty: Record<string, unknown> = {};
+      writeFrontmatterTitle(empty, "aliases", "New");
+      expect(empty).toEqual({ aliases: ["New"] });
+    });
+  });
+});
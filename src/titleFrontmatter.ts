@@ -0,0 +1,63 @@
+import { normalizeCustomListTitleInput } from "./customListTitles";
+
+export const DEFAULT_TITLE_FRONTMATTER_PROPERTY = "summary";
+
+// Properties Obsidian treats as lists, written as one even when missing.
+const LIST_PROPERTIES = new Set(["aliases"]);
+
+export function normalizeTitleFrontmatterProperty(value: unknown): string {
+  const property = typeof value === "string" ? value.trim() : "";
+  return property || DEFAULT_TITLE_FRONTMATTER_PROPERTY;
+}
+
+/**
+ * Title text to store in frontmatter for a list label: the label without its date prefix.
+ */
+export function getFrontmatterTitleValue(dateStr: string, label: string): string {
+  return normalizeCustomListTitleInput({ dateStr, input: label });
+}
+
+/**
+ * Title stored in `property`. List properties such as `aliases` hold the title as their
+ * first entry.
+ */
+export function readFrontmatterTitle(
+  frontmatter: Record<string, unknown> | null | undefined,
+  property: string
+): string | null {
+  const raw = frontmatter?.[property];
+  const value: unknown = Array.isArray(raw) ? (raw as unknown[]).find((v) => typeof v === "string" && v.trim()) : raw;
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Write `title` into `property` of a frontmatter object (as passed to
+ * `processFrontMatter`). `previous` is the title written last time: it's replaced in
+ * list properties, and removed when `title` is empty. Other list entries are kept.
+ */
+export function writeFrontmatterTitle(
+  frontmatter: Record<string, unknown>,
+  property: string,
+  title: string,
+  previous?: string | null
+): void {
+  const raw = frontmatter[property];
+
+  if (Array.isArray(raw) || (raw === undefined && LIST_PROPERTIES.has(property))) {
+    const list: unknown[] = Array.isArray(raw) ? raw : [];
+    const rest = list.filter((v) => v !== title && (!previous || v !== previous));
+    const next = title ? [title, ...rest] : rest;
+    if (next.length) {
+      frontmatter[property] = next;
+    } else {
+      delete frontmatter[property];
+    }
+    return;
+  }
+
+  if (title) {
+    frontmatter[property] = title;
+  } else if (previous && raw === previous) {
+    delete frontmatter[property];
+  }
+}
@@ -0,0 +1,45 @@
+import type { TFile, Vault } from "obsidian";
+
+import {
+  formatLocalDateYYYYMMDD,
+  getCreatedOnDayKey,
+  isNoteLikeFile,
+  shouldIndexCreatedFile,
+} from "./createdOnDay";
+
+const mockFile = (path: string, ctime: number): TFile => {
+  const name = path.split("/").pop() ?? path;
+  const dot = name.lastIndexOf(".");
+  return {
+    vault: {} as unknown as Vault,
+    path,
+    name,
+    parent: null,
+    stat: { ctime, mtime: ctime, size: 0 },
+    basename: dot >= 0 ? name.slice(0, dot) : name,
+    extension: dot >= 0 ? name.slice(dot + 1) : "",
+  };
+};
+
+describe("ui/createdOnDay", () => {
+  const ctime = new Date(2025, 2, 9, 23, 30).getTime();
+  const configDir = ".config";
+
+  test("buckets by the local creation day", () => {
+    expect(formatLocalDateYYYYMMDD(ctime)).toBe("2025-03-09");
+    expect(getCreatedOnDayKey(mockFile("notes/a.md", ctime), configDir)).toBe("2025-03-09");
+    expect(getCreatedOnDayKey(mockFile("notes/a.md", 0), configDir)).toBeNull();
+  });
+
+  test("skips the config folder and trash", () => {
+    expect(shouldIndexCreatedFile(mockFile(".config/app.json", ctime), configDir)).toBe(false);
+    expect(shouldIndexCreatedFile(mockFile(".configs/app.json", ctime), configDir)).toBe(true);
+    expect(getCreatedOnDayKey(mockFile(".trash/old.md", ctime), configDir)).toBeNull();
+  });
+
+  test("treats Markdown and canvas files as notes", () => {
+    expect(isNoteLikeFile(mockFile("a.md", ctime))).toBe(true);
+    expect(isNoteLikeFile(mockFile("b.CANVAS", ctime))).toBe(true);
+    expect(isNoteLikeFile(mockFile("c.png", ctime))).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import type { TFile } from "obsidian";
+
+// Files created per local day drive both the list's created-on-day counts and the
+// "files created" heatmap, so both use these helpers to agree on what counts and where.
+
+export function formatLocalDateYYYYMMDD(epochMs: number): string {
+  const d = new Date(epochMs);
+  const pad2 = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+}
+
+export function isNoteLikeFile(file: TFile): boolean {
+  const ext = (file.extension ?? "").toLowerCase();
+  return ext === "md" || ext === "canvas";
+}
+
+/**
+ * Whether a file counts as created content; Obsidian's config folder and trash are noise.
+ */
+export function shouldIndexCreatedFile(file: TFile, configDir: string | undefined): boolean {
+  const p = file.path ?? "";
+  return !(configDir && p.startsWith(`${configDir}/`)) && !p.startsWith(".trash/");
+}
+
+/**
+ * Local day (YYYY-MM-DD) the file was created on, or null when it isn't counted or has
+ * no creation time.
+ */
+export function getCreatedOnDayKey(file: TFile, configDir: string | undefined): string | null {
+  if (!shouldIndexCreatedFile(file, configDir)) {
+    return null;
+  }
+  const ctime = file.stat?.ctime;
+  return ctime ? formatLocalDateYYYYMMDD(ctime) : null;
+}
@@ -0,0 +1,58 @@
+import {
+  createCustomGroupingPreset,
+  describeGroupSegments,
+  isCustomGroupingPresetId,
+  sanitizeCustomGroupingPresets,
+} from "./customGrouping";
+
+describe("ui/customGrouping", () => {
+  test("isCustomGroupingPresetId", () => {
+    expect(isCustomGroupingPresetId(createCustomGroupingPreset().id)).toBe(true);
+    expect(isCustomGroupingPresetId("custom-")).toBe(false);
+    expect(isCustomGroupingPresetId("year_month")).toBe(false);
+  });
+
+  test("sanitizeCustomGroupingPresets drops invalid presets and segments", () => {
+    expect(
+      sanitizeCustomGroupingPresets([
+        {
+          id: "custom-a",
+          name: " Work ",
+          segments: [
+            { kind: "fiscal_year", startMonth: 13, format: "[FY]YYYY" },
+            { kind: "fiscal_quarter", startMonth: 0 },
+            { kind: "decade" },
+            { kind: "property", property: " project " },
+          ],
+        },
+        { id: "custom-a", name: "Duplicate", segments: [] },
+        { id: "year", name: "Not custom", segments: [] },
+        null,
+      ])
+    ).toEqual([
+      {
+        id: "custom-a",
+        name: "Work",
+        segments: [
+          { kind: "fiscal_year", format: "[FY]YYYY", startMonth: 1, property: "" },
+          { kind: "fiscal_quarter", format: "", startMonth: 0, property: "" },
+          { kind: "property", format: "", startMonth: 1, property: "project" },
+        ],
+      },
+    ]);
+    expect(sanitizeCustomGroupingPresets("nope")).toEqual([]);
+  });
+
+  test("describeGroupSegments", () => {
+    expect(
+      describeGroupSegments(
+        sanitizeCustomGroupingPresets([
+          {
+            id: "custom-a",
+            segments: [{ kind: "year" }, { kind: "month", format: "MMMM" }, { kind: "property", property: "mood" }],
+          },
+        ])[0].segments
+      )
+    ).toBe("Year → Month (MMMM) → mood");
+  });
+});
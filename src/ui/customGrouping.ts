@@ -0,0 +1,157 @@
+export type ListGroupSegmentKind =
+  | "year"
+  | "iso_year"
+  | "quarter"
+  | "month"
+  | "iso_week"
+  | "weekday"
+  | "fiscal_year"
+  | "fiscal_quarter"
+  | "property";
+
+export type ListGroupSegment = {
+  kind: ListGroupSegmentKind;
+  // Header label: a moment format for date segments (e.g. `MMMM`), or text with
+  // `{{value}}` for property segments. Empty uses the kind's default.
+  format: string;
+  // `fiscal_year` / `fiscal_quarter`: first month of the year, 1-12, or 0 for the
+  // year start set in settings
+  startMonth: number;
+  // `property`: frontmatter property whose value names the group
+  property: string;
+};
+
+export type CustomGroupingPreset = {
+  // Stored as the selected grouping preset, so it never changes once created
+  id: string;
+  name: string;
+  // Outermost group first
+  segments: ListGroupSegment[];
+};
+
+export const CUSTOM_GROUPING_PRESET_PREFIX = "custom-";
+
+export const LIST_GROUP_SEGMENT_KINDS: { kind: ListGroupSegmentKind; label: string }[] = [
+  { kind: "year", label: "Year" },
+  { kind: "iso_year", label: "ISO year" },
+  { kind: "quarter", label: "Quarter" },
+  { kind: "month", label: "Month" },
+  { kind: "iso_week", label: "ISO week" },
+  { kind: "weekday", label: "Weekday" },
+  { kind: "fiscal_year", label: "Fiscal year" },
+  { kind: "fiscal_quarter", label: "Fiscal quarter" },
+  { kind: "property", label: "Property" },
+];
+
+export const DEFAULT_SEGMENT_FORMATS: Record<ListGroupSegmentKind, string> = {
+  year: "YYYY",
+  iso_year: "GGGG",
+  quarter: "[Q]Q",
+  month: "MM",
+  iso_week: "[W]WW",
+  weekday: "dddd",
+  fiscal_year: "[FY]YY",
+  fiscal_quarter: "[Q]Q",
+  property: "{{value}}",
+};
+
+// Nesting deeper than this isn't readable in a sidebar.
+export const MAX_GROUP_SEGMENTS = 4;
+
+const KINDS = LIST_GROUP_SEGMENT_KINDS.map((k) => k.kind);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function isCustomGroupingPresetId(value: unknown): value is `custom-${string}` {
+  return (
+    typeof value === "string" &&
+    value.startsWith(CUSTOM_GROUPING_PRESET_PREFIX) &&
+    value.length > CUSTOM_GROUPING_PRESET_PREFIX.length
+  );
+}
+
+export function normalizeFiscalStartMonth(value: unknown): number {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(n) && n >= 1 && n <= 12 ? n : 1;
+}
+
+export function createListGroupSegment(overrides: Partial<ListGroupSegment> = {}): ListGroupSegment {
+  return { kind: "year", format: "", startMonth: 0, property: "", ...overrides };
+}
+
+export function createCustomGroupingPreset(
+  overrides: Partial<CustomGroupingPreset> = {}
+): CustomGroupingPreset {
+  return {
+    id: `${CUSTOM_GROUPING_PRESET_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: "Custom grouping",
+    segments: [createListGroupSegment({ kind: "year" }), createListGroupSegment({ kind: "month" })],
+    ...overrides,
+  };
+}
+
+function sanitizeSegment(raw: unknown): ListGroupSegment | null {
+  if (!isRecord(raw) || !KINDS.includes(raw["kind"] as ListGroupSegmentKind)) {
+    return null;
+  }
+
+  return {
+    kind: raw["kind"] as ListGroupSegmentKind,
+    format: typeof raw["format"] === "string" ? raw["format"] : "",
+    startMonth: raw["startMonth"] === 0 ? 0 : normalizeFiscalStartMonth(raw["startMonth"]),
+    property: typeof raw["property"] === "string" ? raw["property"].trim() : "",
+  };
+}
+
+export function sanitizeCustomGroupingPresets(value: unknown): CustomGroupingPreset[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const out: CustomGroupingPreset[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of value as unknown[]) {
+    if (!isRecord(raw) || !isCustomGroupingPresetId(raw["id"]) || seen.has(raw["id"])) {
+      continue;
+    }
+    seen.add(raw["id"]);
+
+    const segments = Array.isArray(raw["segments"])
+      ? (raw["segments"] as unknown[])
+          .map(sanitizeSegment)
+          .filter((s): s is ListGroupSegment => !!s)
+          .slice(0, MAX_GROUP_SEGMENTS)
+      : [];
+
+    out.push({
+      id: raw["id"],
+      name: typeof raw["name"] === "string" && raw["name"].trim() ? raw["name"].trim() : "Custom grouping",
+      segments,
+    });
+  }
+
+  return out;
+}
+
+export function getSegmentFormat(segment: ListGroupSegment): string {
+  return segment.format.trim() || DEFAULT_SEGMENT_FORMATS[segment.kind];
+}
+
+/**
+ * Short description of a segment chain, e.g. `Year → Month (MMMM)`.
+ */
+export function describeGroupSegments(segments: ListGroupSegment[]): string {
+  return segments
+    .map((segment) => {
+      const label =
+        segment.kind === "property"
+          ? segment.property || "Property"
+          : (LIST_GROUP_SEGMENT_KINDS.find((k) => k.kind === segment.kind)?.label ?? segment.kind);
+      const format = segment.format.trim();
+      return format ? `${label} (${format})` : label;
+    })
+    .join(" → ");
+}
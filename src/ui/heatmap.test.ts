@@ -0,0 +1,59 @@
+import {
+  DEFAULT_HEATMAP_THRESHOLDS,
+  getHeatmapClasses,
+  getHeatmapIntensity,
+  getHeatmapLevel,
+  normalizeHeatmapMetric,
+  parseHeatmapThresholds,
+} from "./heatmap";
+
+describe("ui/heatmap", () => {
+  describe("parseHeatmapThresholds", () => {
+    test("parses comma/space separated input, sorted and de-duplicated", () => {
+      expect(parseHeatmapThresholds("500, 1 250,250")).toEqual([1, 250, 500]);
+    });
+
+    test("accepts stored arrays and drops non-numeric entries", () => {
+      expect(parseHeatmapThresholds([3, "x", 1, null])).toEqual([1, 3]);
+    });
+
+    test("caps the number of levels", () => {
+      expect(parseHeatmapThresholds("1,2,3,4,5,6,7")).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test("falls back to defaults when nothing is usable", () => {
+      expect(parseHeatmapThresholds("abc")).toEqual(DEFAULT_HEATMAP_THRESHOLDS);
+      expect(parseHeatmapThresholds(undefined)).toEqual(DEFAULT_HEATMAP_THRESHOLDS);
+    });
+  });
+
+  describe("getHeatmapLevel", () => {
+    test("counts thresholds reached", () => {
+      const thresholds = [1, 250, 500];
+      expect(getHeatmapLevel(0, thresholds)).toBe(0);
+      expect(getHeatmapLevel(1, thresholds)).toBe(1);
+      expect(getHeatmapLevel(499, thresholds)).toBe(2);
+      expect(getHeatmapLevel(10_000, thresholds)).toBe(3);
+      expect(getHeatmapLevel(NaN, thresholds)).toBe(0);
+    });
+  });
+
+  describe("getHeatmapIntensity", () => {
+    test("spreads levels across the 5 CSS steps", () => {
+      expect(getHeatmapIntensity(0, 2)).toBe(0);
+      expect(getHeatmapIntensity(1, 2)).toBe(3);
+      expect(getHeatmapIntensity(2, 2)).toBe(5);
+      expect(getHeatmapIntensity(3, 5)).toBe(3);
+    });
+  });
+
+  test("getHeatmapClasses returns no classes below the first threshold", () => {
+    expect(getHeatmapClasses(0, [1, 10])).toEqual([]);
+    expect(getHeatmapClasses(10, [1, 10])).toEqual(["has-heatmap", "heatmap-level-5"]);
+  });
+
+  test("normalizeHeatmapMetric falls back to word count", () => {
+    expect(normalizeHeatmapMetric("openTasks")).toBe("openTasks");
+    expect(normalizeHeatmapMetric("bogus")).toBe("wordCount");
+  });
+});
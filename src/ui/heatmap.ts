@@ -0,0 +1,107 @@
+export type HeatmapMetric =
+  | "wordCount"
+  | "openTasks"
+  | "completedTasks"
+  | "frontmatter"
+  | "createdFiles";
+
+export const HEATMAP_METRICS: { value: HeatmapMetric; label: string }[] = [
+  { value: "wordCount", label: "Word count" },
+  { value: "openTasks", label: "Open tasks" },
+  { value: "completedTasks", label: "Completed tasks" },
+  { value: "frontmatter", label: "Frontmatter number" },
+  { value: "createdFiles", label: "Files created that day" },
+];
+
+export const DEFAULT_HEATMAP_THRESHOLDS: number[] = [1, 250, 500, 1000];
+
+// CSS ships 5 intensity steps; more thresholds than that wouldn't be distinguishable.
+export const MAX_HEATMAP_LEVELS = 5;
+
+export function normalizeHeatmapMetric(value: unknown): HeatmapMetric {
+  return HEATMAP_METRICS.some((m) => m.value === value)
+    ? (value as HeatmapMetric)
+    : "wordCount";
+}
+
+/**
+ * Parse user-entered bucket thresholds (e.g. "1, 250, 500, 1000").
+ *
+ * Keeps finite numbers only, sorted ascending and de-duplicated, capped at
+ * `MAX_HEATMAP_LEVELS`. Falls back to the defaults when nothing usable is left.
+ */
+export function parseHeatmapThresholds(value: unknown): number[] {
+  const raw: unknown[] = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[,\s]+/)
+      : [];
+
+  const nums = raw
+    .map((v) => (typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN))
+    .filter((n) => Number.isFinite(n));
+
+  const unique = Array.from(new Set(nums)).sort((a, b) => a - b);
+  if (!unique.length) {
+    return [...DEFAULT_HEATMAP_THRESHOLDS];
+  }
+
+  return unique.slice(0, MAX_HEATMAP_LEVELS);
+}
+
+export function formatHeatmapThresholds(thresholds: number[]): string {
+  return thresholds.join(", ");
+}
+
+/**
+ * Bucket a value: 0 when below the first threshold, otherwise the number of
+ * thresholds reached (1..thresholds.length).
+ */
+export function getHeatmapLevel(value: number, thresholds: number[]): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+
+  let level = 0;
+  for (const threshold of thresholds) {
+    if (value >= threshold) {
+      level++;
+    } else {
+      break;
+    }
+  }
+  return level;
+}
+
+/**
+ * Map a level onto one of the 5 CSS intensity steps, so 2 thresholds still span
+ * the full colour range.
+ */
+export function getHeatmapIntensity(level: number, levelCount: number): number {
+  if (level <= 0 || levelCount <= 0) {
+    return 0;
+  }
+
+  const clamped = Math.min(level, levelCount);
+  return Math.max(1, Math.ceil((clamped / levelCount) * MAX_HEATMAP_LEVELS));
+}
+
+export function getHeatmapClasses(value: number, thresholds: number[]): string[] {
+  const intensity = getHeatmapIntensity(
+    getHeatmapLevel(value, thresholds),
+    thresholds.length
+  );
+  return intensity ? ["has-heatmap", `heatmap-level-${intensity}`] : [];
+}
+
+/**
+ * Legend entries for the configured thresholds, lowest first.
+ */
+export function getHeatmapLegend(
+  thresholds: number[]
+): { intensity: number; label: string }[] {
+  return thresholds.map((threshold, i) => ({
+    intensity: getHeatmapIntensity(i + 1, thresholds.length),
+    label: `≥ ${threshold}`,
+  }));
+}
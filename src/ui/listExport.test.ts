@@ -0,0 +1,157 @@
+import type { TFile, Vault, moment } from "obsidian";
+
+import {
+  formatListExportCsv,
+  formatListExportJson,
+  formatListExportMarkdown,
+  getListExportRows,
+  normalizeListExportFormat,
+  serializeListExport,
+  type ListExportContext,
+} from "./listExport";
+import type { ListGroupAggregates, ListGroupNode, ListItem } from "./listViewModel";
+
+const mockFile = (path: string): TFile => ({
+  vault: {} as unknown as Vault,
+  path,
+  name: path.split("/").pop() ?? path,
+  parent: null,
+  stat: { ctime: 0, mtime: 0, size: 0 },
+  basename: (path.split("/").pop() ?? path).replace(/\.md$/, ""),
+  extension: "md",
+});
+
+const makeItem = (dateStr: string, extra: Partial<ListItem> = {}): ListItem => ({
+  date: {} as moment.Moment,
+  dateUID: dateStr,
+  dateStr,
+  epoch: 0,
+  year: Number(dateStr.slice(0, 4)),
+  file: mockFile(`Daily/${dateStr}.md`),
+  filePath: `Daily/${dateStr}.md`,
+  mtime: 0,
+  dailyNoteExists: true,
+  createdNotesCount: 0,
+  createdFilesCount: 0,
+  ...extra,
+});
+
+const makeGroup = (
+  id: string,
+  label: string,
+  content: { groups?: ListGroupNode[]; items?: ListItem[] }
+): ListGroupNode => ({
+  id,
+  label,
+  groups: content.groups ?? [],
+  items: content.items ?? [],
+  dailyNoteCount: (content.items ?? []).filter((i) => i.dailyNoteExists).length,
+  aggregates: {} as ListGroupAggregates,
+});
+
+const groups = [
+  makeGroup("2025", "2025", {
+    groups: [
+      makeGroup("2025/02", "February", {
+        items: [
+          makeItem("2025-02-03", { wordCount: 120, createdNotesCount: 1 }),
+          makeItem("2025-02-01", {
+            file: undefined,
+            filePath: "",
+            dailyNoteExists: false,
+            createdFilesCount: 2,
+          }),
+        ],
+      }),
+    ],
+  }),
+];
+
+const titles: Record<string, string> = { "2025-02-03": 'Trip to "Lisbon", day 1' };
+const context: ListExportContext = {
+  getLabel: (item) => titles[item.dateStr] ?? item.dateStr,
+  getColor: (item) => (item.dateStr === "2025-02-03" ? "#22c55e" : null),
+};
+
+describe("ui/listExport", () => {
+  test("rows carry the group path, label, colour, words and created counts", () => {
+    expect(getListExportRows(groups, context)).toEqual([
+      {
+        date: "2025-02-03",
+        label: 'Trip to "Lisbon", day 1',
+        groups: ["2025", "February"],
+        path: "Daily/2025-02-03.md",
+        color: "#22c55e",
+        wordCount: 120,
+        createdNotesCount: 1,
+        createdFilesCount: 0,
+      },
+      {
+        date: "2025-02-01",
+        label: "2025-02-01",
+        groups: ["2025", "February"],
+        path: "",
+        color: "",
+        wordCount: null,
+        createdNotesCount: 0,
+        createdFilesCount: 2,
+      },
+    ]);
+  });
+
+  test("word counts missing from items come from the context", () => {
+    const [row] = getListExportRows(
+      [makeGroup("2025", "2025", { items: [makeItem("2025-03-01")] })],
+      { ...context, getWordCount: () => 42 }
+    );
+    expect(row.wordCount).toBe(42);
+  });
+
+  test("markdown outline nests groups and links daily notes", () => {
+    expect(formatListExportMarkdown(groups, context)).toBe(
+      [
+        "- **2025**",
+        "\t- **February**",
+        '\t\t- [[Daily/2025-02-03|Trip to "Lisbon", day 1]] · 120 words · created 1 note, 0 files · Green',
+        "\t\t- 2025-02-01 · created 0 notes, 2 files",
+        "",
+      ].join("\n")
+    );
+
+    const linked = formatListExportMarkdown(groups, {
+      ...context,
+      getLabel: (item) => (item.dateStr === "2025-02-03" ? "A | B" : item.dateStr),
+      getLinkText: () => "2025-02-03",
+    });
+    expect(linked).toContain("[[2025-02-03|A B]]");
+  });
+
+  test("csv quotes values with commas and quotes", () => {
+    const csv = formatListExportCsv(getListExportRows(groups, context));
+    expect(csv.split("\r\n")).toEqual([
+      "date,label,group,color,word_count,created_notes,created_files,path",
+      '2025-02-03,"Trip to ""Lisbon"", day 1",2025 / February,#22c55e,120,1,0,Daily/2025-02-03.md',
+      "2025-02-01,2025-02-01,2025 / February,,,0,2,",
+      "",
+    ]);
+  });
+
+  test("json keeps the group tree", () => {
+    const parsed = JSON.parse(formatListExportJson(groups, context)) as {
+      groups: { id: string; groups: { label: string; items: { date: string }[] }[] }[];
+    };
+    expect(parsed.groups[0].id).toBe("2025");
+    expect(parsed.groups[0].groups[0].label).toBe("February");
+    expect(parsed.groups[0].groups[0].items.map((i) => i.date)).toEqual([
+      "2025-02-03",
+      "2025-02-01",
+    ]);
+  });
+
+  test("serializeListExport picks the format", () => {
+    expect(normalizeListExportFormat("csv")).toBe("csv");
+    expect(normalizeListExportFormat("xml")).toBe("markdown");
+    expect(serializeListExport(groups, "csv", context).startsWith("date,label")).toBe(true);
+    expect(serializeListExport([], "markdown", context)).toBe("");
+  });
+});
@@ -0,0 +1,223 @@
+import { LIST_ITEM_TAG_COLORS } from "./listItemColorTagMenu";
+import type { ListGroupNode, ListItem } from "./listViewModel";
+
+export type ListExportFormat = "markdown" | "csv" | "json";
+
+export type ListExportDestination = "note" | "clipboard";
+
+export const LIST_EXPORT_FORMATS: { format: ListExportFormat; label: string; extension: string }[] = [
+  { format: "markdown", label: "Markdown outline", extension: "md" },
+  { format: "csv", label: "CSV", extension: "csv" },
+  { format: "json", label: "JSON", extension: "json" },
+];
+
+export type ListExportContext = {
+  // Row label as shown in the list (custom title, AI title or the date)
+  getLabel: (item: ListItem) => string;
+  getColor: (item: ListItem) => string | null;
+  // Word count when the item doesn't carry one
+  getWordCount?: (item: ListItem) => number | undefined;
+  // Wiki-link target for the daily note; defaults to its path without `.md`
+  getLinkText?: (item: ListItem) => string;
+};
+
+export type ListExportRow = {
+  date: string;
+  label: string;
+  // Group labels from the outermost group down
+  groups: string[];
+  // Daily note path; empty for days that only have created files
+  path: string;
+  // Colour tag as a hex value, empty when untagged
+  color: string;
+  // Null for days without a daily note or when the count wasn't read
+  wordCount: number | null;
+  createdNotesCount: number;
+  createdFilesCount: number;
+};
+
+type ListExportJsonGroup = {
+  id: string;
+  label: string;
+  dailyNoteCount: number;
+  groups: ListExportJsonGroup[];
+  items: Omit<ListExportRow, "groups">[];
+};
+
+const CSV_COLUMNS: { header: string; value: (row: ListExportRow) => string | number | null }[] = [
+  { header: "date", value: (row) => row.date },
+  { header: "label", value: (row) => row.label },
+  { header: "group", value: (row) => row.groups.join(" / ") },
+  { header: "color", value: (row) => row.color },
+  { header: "word_count", value: (row) => row.wordCount },
+  { header: "created_notes", value: (row) => row.createdNotesCount },
+  { header: "created_files", value: (row) => row.createdFilesCount },
+  { header: "path", value: (row) => row.path },
+];
+
+export function normalizeListExportFormat(value: unknown): ListExportFormat {
+  return value === "csv" || value === "json" ? value : "markdown";
+}
+
+function getItemFields(item: ListItem, context: ListExportContext): Omit<ListExportRow, "groups"> {
+  const wordCount = item.wordCount ?? context.getWordCount?.(item);
+  return {
+    date: item.dateStr,
+    label: context.getLabel(item),
+    path: item.filePath ?? "",
+    color: context.getColor(item) ?? "",
+    wordCount: item.dailyNoteExists && wordCount !== undefined ? wordCount : null,
+    createdNotesCount: item.createdNotesCount ?? 0,
+    createdFilesCount: item.createdFilesCount ?? 0,
+  };
+}
+
+function getListExportRow(
+  item: ListItem,
+  groups: string[],
+  context: ListExportContext
+): ListExportRow {
+  return { ...getItemFields(item, context), groups };
+}
+
+/**
+ * Every day in the tree, in display order, with the labels of the groups it sits in.
+ */
+export function getListExportRows(
+  groups: ListGroupNode[],
+  context: ListExportContext
+): ListExportRow[] {
+  const rows: ListExportRow[] = [];
+
+  const visit = (node: ListGroupNode, labels: string[]): void => {
+    const path = [...labels, node.label];
+    for (const child of node.groups) {
+      visit(child, path);
+    }
+    for (const item of node.items) {
+      rows.push(getListExportRow(item, path, context));
+    }
+  };
+
+  for (const group of groups) {
+    visit(group, []);
+  }
+  return rows;
+}
+
+function getColorName(color: string): string {
+  return LIST_ITEM_TAG_COLORS.find((c) => c.color === color)?.label ?? color;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function escapeLinkAlias(label: string): string {
+  return label.replace(/[|\]]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function formatMarkdownItem(item: ListItem, context: ListExportContext): string {
+  const row = getItemFields(item, context);
+  const parts: string[] = [];
+
+  if (item.dailyNoteExists && row.path) {
+    const target = context.getLinkText?.(item) ?? row.path.replace(/\.md$/i, "");
+    const alias = escapeLinkAlias(row.label);
+    parts.push(alias && alias !== target ? `[[${target}|${alias}]]` : `[[${target}]]`);
+  } else {
+    parts.push(row.label || row.date);
+  }
+
+  if (row.wordCount !== null) {
+    parts.push(plural(row.wordCount, "word"));
+  }
+  if (row.createdNotesCount || row.createdFilesCount) {
+    parts.push(
+      `created ${plural(row.createdNotesCount, "note")}, ${plural(row.createdFilesCount, "file")}`
+    );
+  }
+  if (row.color) {
+    parts.push(getColorName(row.color));
+  }
+
+  return parts.join(" · ");
+}
+
+/**
+ * Nested bullet outline: one bullet per group (in bold) and a wiki-link per daily note.
+ */
+export function formatListExportMarkdown(
+  groups: ListGroupNode[],
+  context: ListExportContext
+): string {
+  const lines: string[] = [];
+
+  const visit = (node: ListGroupNode, depth: number): void => {
+    const indent = "\t".repeat(depth);
+    lines.push(`${indent}- **${node.label}**`);
+    for (const child of node.groups) {
+      visit(child, depth + 1);
+    }
+    for (const item of node.items) {
+      lines.push(`${indent}\t- ${formatMarkdownItem(item, context)}`);
+    }
+  };
+
+  for (const group of groups) {
+    visit(group, 0);
+  }
+  return lines.length ? `${lines.join("\n")}\n` : "";
+}
+
+function escapeCsvValue(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+  const s = String(value);
+  return /[",\r\n]/.test(s) || s !== s.trim() ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * One row per day (RFC 4180 quoting, CRLF line endings), with a header row.
+ */
+export function formatListExportCsv(rows: ListExportRow[]): string {
+  const lines = [CSV_COLUMNS.map((c) => c.header).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((c) => escapeCsvValue(c.value(row))).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * The group tree with each day's export row, for scripts and spreadsheets that read JSON.
+ */
+export function formatListExportJson(
+  groups: ListGroupNode[],
+  context: ListExportContext
+): string {
+  const toJson = (node: ListGroupNode): ListExportJsonGroup => ({
+    id: node.id,
+    label: node.label,
+    dailyNoteCount: node.dailyNoteCount,
+    groups: node.groups.map(toJson),
+    items: node.items.map((item) => getItemFields(item, context)),
+  });
+
+  return `${JSON.stringify({ groups: groups.map(toJson) }, null, 2)}\n`;
+}
+
+export function serializeListExport(
+  groups: ListGroupNode[],
+  format: ListExportFormat,
+  context: ListExportContext
+): string {
+  switch (format) {
+    case "csv":
+      return formatListExportCsv(getListExportRows(groups, context));
+    case "json":
+      return formatListExportJson(groups, context);
+    default:
+      return formatListExportMarkdown(groups, context);
+  }
+}
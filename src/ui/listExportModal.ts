@@ -0,0 +1,71 @@
+import { Modal, Setting } from "obsidian";
+import type { App } from "obsidian";
+
+import { exportListView, type ListExportSource } from "src/io/listExport";
+import {
+  LIST_EXPORT_FORMATS,
+  normalizeListExportFormat,
+  type ListExportDestination,
+  type ListExportFormat,
+} from "./listExport";
+
+/**
+ * Pick a format and destination, then export the list as it is currently shown.
+ */
+export class ListExportModal extends Modal {
+  private format: ListExportFormat = "markdown";
+  private destination: ListExportDestination = "note";
+
+  constructor(
+    app: App,
+    private source: ListExportSource
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl("h2", { text: "Export list view" });
+    contentEl.createEl("p", {
+      cls: "setting-item-description",
+      text: "Uses the current grouping, sort order and filters.",
+    });
+
+    new Setting(contentEl).setName("Format").addDropdown((dropdown) => {
+      for (const { format, label } of LIST_EXPORT_FORMATS) {
+        dropdown.addOption(format, label);
+      }
+      dropdown.setValue(this.format).onChange((value) => {
+        this.format = normalizeListExportFormat(value);
+      });
+    });
+
+    new Setting(contentEl).setName("Destination").addDropdown((dropdown) => {
+      dropdown
+        .addOption("note", "New file in the vault")
+        .addOption("clipboard", "Clipboard")
+        .setValue(this.destination)
+        .onChange((value) => {
+          this.destination = value === "clipboard" ? "clipboard" : "note";
+        });
+    });
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Export")
+        .setCta()
+        .onClick(() => {
+          this.close();
+          void exportListView({
+            source: this.source,
+            format: this.format,
+            destination: this.destination,
+          });
+        })
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  defaultListFilters,
+  formatPropertyFilterInput,
+  hasActiveListFilters,
+  LIST_FILTER_ANY_COLOR,
+  matchesListFilters,
+  parsePropertyFilterInput,
+  sanitizeListFilters,
+  type ListFilterContext,
+  type ListFilters,
+} from "./listFilters";
+
+function filters(overrides: Partial<ListFilters> = {}): ListFilters {
+  return { ...defaultListFilters, ...overrides };
+}
+
+function ctx(overrides: Partial<ListFilterContext> = {}): ListFilterContext {
+  return {
+    tags: [],
+    frontmatter: null,
+    color: null,
+    customTitle: null,
+    openTaskCount: 0,
+    text: ["2025-12-01"],
+    ...overrides,
+  };
+}
+
+describe("ui/listFilters", () => {
+  test("no active filters matches everything", () => {
+    expect(hasActiveListFilters(defaultListFilters)).toBe(false);
+    expect(matchesListFilters(defaultListFilters, ctx())).toBe(true);
+  });
+
+  test("tags match any listed tag, including nested tags", () => {
+    const f = filters({ tags: ["work", "health"] });
+    expect(matchesListFilters(f, ctx({ tags: ["work/meetings"] }))).toBe(true);
+    expect(matchesListFilters(f, ctx({ tags: ["travel"] }))).toBe(false);
+  });
+
+  test("property filter checks presence or a value", () => {
+    expect(matchesListFilters(filters({ property: "mood" }), ctx({ frontmatter: { mood: 3 } }))).toBe(true);
+    expect(matchesListFilters(filters({ property: "mood" }), ctx({ frontmatter: {} }))).toBe(false);
+
+    const typed = filters({ property: "type", propertyValue: "Vacation" });
+    expect(matchesListFilters(typed, ctx({ frontmatter: { type: "vacation" } }))).toBe(true);
+    expect(matchesListFilters(typed, ctx({ frontmatter: { type: "work" } }))).toBe(false);
+  });
+
+  test("colour filter matches any tag or one colour", () => {
+    const any = filters({ color: LIST_FILTER_ANY_COLOR });
+    expect(matchesListFilters(any, ctx({ color: "#ef4444" }))).toBe(true);
+    expect(matchesListFilters(any, ctx())).toBe(false);
+
+    const red = filters({ color: "#ef4444" });
+    expect(matchesListFilters(red, ctx({ color: "#EF4444" }))).toBe(true);
+    expect(matchesListFilters(red, ctx({ color: "#22c55e" }))).toBe(false);
+  });
+
+  test("free text searches the item labels case-insensitively", () => {
+    const f = filters({ text: " Offsite " });
+    expect(matchesListFilters(f, ctx({ text: ["2025-12-01", "Team offsite"] }))).toBe(true);
+    expect(matchesListFilters(f, ctx())).toBe(false);
+  });
+
+  test("mode combines conditions with AND or OR", () => {
+    const item = ctx({ tags: ["work"], openTaskCount: 0, customTitle: "Planning" });
+    const base = filters({ tags: ["work"], hasOpenTasks: true, hasCustomTitle: true });
+
+    expect(matchesListFilters(base, item)).toBe(false);
+    expect(matchesListFilters({ ...base, mode: "or" }, item)).toBe(true);
+    expect(matchesListFilters({ ...base, mode: "or", tags: [] }, ctx())).toBe(false);
+  });
+
+  test("parsePropertyFilterInput and formatPropertyFilterInput round-trip", () => {
+    expect(parsePropertyFilterInput(" type = vacation ")).toEqual({
+      property: "type",
+      propertyValue: "vacation",
+    });
+    expect(parsePropertyFilterInput("mood")).toEqual({ property: "mood", propertyValue: "" });
+    expect(parsePropertyFilterInput("=x")).toEqual({ property: "", propertyValue: "" });
+    expect(formatPropertyFilterInput(filters({ property: "type", propertyValue: "vacation" }))).toBe(
+      "type=vacation"
+    );
+  });
+
+  test("sanitizeListFilters normalizes persisted state", () => {
+    expect(
+      sanitizeListFilters({
+        mode: "or",
+        tags: ["#Work", 3],
+        property: " mood ",
+        propertyValue: " 3 ",
+        color: "#ABC",
+        hasCustomTitle: "yes",
+        hasOpenTasks: true,
+        text: "offsite",
+      })
+    ).toEqual({
+      mode: "or",
+      tags: ["work"],
+      property: "mood",
+      propertyValue: "3",
+      color: "#aabbcc",
+      hasCustomTitle: false,
+      hasOpenTasks: true,
+      text: "offsite",
+    });
+    expect(sanitizeListFilters({ mode: "xor", color: "teal", propertyValue: "x" })).toEqual(
+      defaultListFilters
+    );
+    expect(sanitizeListFilters(null)).toEqual(defaultListFilters);
+  });
+});
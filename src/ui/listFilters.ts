@@ -0,0 +1,176 @@
+import { normalizeListItemColor } from "src/listItemColorTags";
+
+import { createPropertyRule, matchesPropertyRule } from "./propertyRules";
+import { parseTagList, tagMatches } from "./tagUtils";
+
+export type ListFilterMode = "and" | "or";
+
+// Colour tag filter: any tagged item, or one specific colour (normalized hex).
+export const LIST_FILTER_ANY_COLOR = "any";
+
+/**
+ * Filters applied to List view items (persisted in `CalendarViewState`).
+ * Each active filter is one condition; `mode` decides whether items must match
+ * all of them or any of them.
+ */
+export type ListFilters = {
+  mode: ListFilterMode;
+  // Normalized tags (no `#`); the tag condition holds when an item has any of them
+  tags: string[];
+  // Frontmatter property key; with an empty `propertyValue` it only has to be set
+  property: string;
+  propertyValue: string;
+  // "" (off), `LIST_FILTER_ANY_COLOR`, or a colour tag hex
+  color: string;
+  hasCustomTitle: boolean;
+  hasOpenTasks: boolean;
+  // Case-insensitive substring of the item's date, file name or titles
+  text: string;
+};
+
+// Per-item data the filters are evaluated against.
+export type ListFilterContext = {
+  tags: string[];
+  frontmatter: Record<string, unknown> | null;
+  color: string | null;
+  customTitle: string | null;
+  openTaskCount: number;
+  // Labels the free-text filter searches (date, file name, titles)
+  text: string[];
+};
+
+export const defaultListFilters: ListFilters = {
+  mode: "and",
+  tags: [],
+  property: "",
+  propertyValue: "",
+  color: "",
+  hasCustomTitle: false,
+  hasOpenTasks: false,
+  text: "",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function asTrimmedString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function sanitizeColorFilter(value: unknown): string {
+  const s = asTrimmedString(value).toLowerCase();
+  if (s === LIST_FILTER_ANY_COLOR) {
+    return s;
+  }
+  return normalizeListItemColor(s);
+}
+
+export function sanitizeListFilters(raw: unknown): ListFilters {
+  if (!isRecord(raw)) {
+    return { ...defaultListFilters, tags: [] };
+  }
+
+  const tags = Array.isArray(raw.tags)
+    ? parseTagList(raw.tags.filter((t): t is string => typeof t === "string").join(" "))
+    : [];
+
+  const property = asTrimmedString(raw.property);
+
+  return {
+    mode: raw.mode === "or" ? "or" : "and",
+    tags,
+    property,
+    propertyValue: property ? asTrimmedString(raw.propertyValue) : "",
+    color: sanitizeColorFilter(raw.color),
+    hasCustomTitle: raw.hasCustomTitle === true,
+    hasOpenTasks: raw.hasOpenTasks === true,
+    text: typeof raw.text === "string" ? raw.text : "",
+  };
+}
+
+/**
+ * Parse the property filter input: `key` (property is set) or `key=value`.
+ */
+export function parsePropertyFilterInput(input: string): {
+  property: string;
+  propertyValue: string;
+} {
+  const s = (input ?? "").trim();
+  const eq = s.indexOf("=");
+  if (eq < 0) {
+    return { property: s, propertyValue: "" };
+  }
+
+  const property = s.slice(0, eq).trim();
+  return { property, propertyValue: property ? s.slice(eq + 1).trim() : "" };
+}
+
+export function formatPropertyFilterInput(filters: ListFilters): string {
+  if (!filters.property) {
+    return "";
+  }
+  return filters.propertyValue
+    ? `${filters.property}=${filters.propertyValue}`
+    : filters.property;
+}
+
+export function countActiveListFilters(filters: ListFilters): number {
+  return [
+    filters.tags.length > 0,
+    !!filters.property,
+    !!filters.color,
+    filters.hasCustomTitle,
+    filters.hasOpenTasks,
+    !!filters.text.trim(),
+  ].filter(Boolean).length;
+}
+
+export function hasActiveListFilters(filters: ListFilters): boolean {
+  return countActiveListFilters(filters) > 0;
+}
+
+export function matchesListFilters(filters: ListFilters, ctx: ListFilterContext): boolean {
+  const results: boolean[] = [];
+
+  if (filters.tags.length) {
+    results.push(filters.tags.some((tag) => tagMatches(ctx.tags, tag)));
+  }
+
+  if (filters.property) {
+    const rule = createPropertyRule({
+      id: "list-filter",
+      property: filters.property,
+      operator: filters.propertyValue ? "equals" : "exists",
+      value: filters.propertyValue,
+    });
+    results.push(matchesPropertyRule(rule, ctx.frontmatter));
+  }
+
+  if (filters.color) {
+    results.push(
+      filters.color === LIST_FILTER_ANY_COLOR
+        ? !!ctx.color
+        : normalizeListItemColor(ctx.color ?? "") === filters.color
+    );
+  }
+
+  if (filters.hasCustomTitle) {
+    results.push(!!ctx.customTitle?.trim());
+  }
+
+  if (filters.hasOpenTasks) {
+    results.push(ctx.openTaskCount > 0);
+  }
+
+  const text = filters.text.trim().toLowerCase();
+  if (text) {
+    results.push(ctx.text.some((s) => (s ?? "").toLowerCase().includes(text)));
+  }
+
+  if (!results.length) {
+    return true;
+  }
+
+  return filters.mode === "or" ? results.some(Boolean) : results.every(Boolean);
+}
@@ -1,17 +1,35 @@
+import { moment as realMoment } from "obsidian";
 import type { TFile, Vault, moment } from "obsidian";
 
-import { buildListGroups, buildListItems } from "./listViewModel";
+import { createCustomGroupingPreset, createListGroupSegment } from "./customGrouping";
+import {
+  buildListGroups,
+  buildListItems,
+  formatFiscalQuarterLabel,
+  getFiscalDate,
+  getListGroupIdPathForDate,
+  getListGroupLeaves,
+  normalizeListGroupAggregateKeys,
+  normalizeListViewSortKey,
+  normalizeListViewSortOrder,
+} from "./listViewModel";
 import type { ListItem } from "./listViewModel";
 
 type Moment = moment.Moment;
 
+// Custom grouping segments use arbitrary label formats, so those tests run on real moment.
+jest.mock("obsidian", () => ({ moment: jest.requireActual<object>("moment") }));
+
 type MomentFactory = {
   (dateStr: string, format: "YYYY-MM-DD", strict: true): Moment;
   locale: (locale: string) => void;
+  // First day of the locale week (0 = Sunday, 1 = Monday)
+  weekStart: (dow: number) => void;
 };
 
 const momentStub: MomentFactory = (() => {
   let currentLocale = "en";
+  let currentWeekStart = 1;
 
   const pad2 = (n: number): string => String(n).padStart(2, "0");
 
@@ -94,6 +112,7 @@ const momentStub: MomentFactory = (() => {
       quarter: () => Math.floor(date.getUTCMonth() / 3) + 1,
       isoWeekYear: () => getISOWeekYear(date),
       isoWeek: () => getISOWeek(date),
+      localeData: () => ({ firstDayOfWeek: () => currentWeekStart }),
     };
 
     return impl as unknown as Moment;
@@ -102,6 +121,9 @@ const momentStub: MomentFactory = (() => {
   factory.locale = (locale: string) => {
     currentLocale = locale;
   };
+  factory.weekStart = (dow: number) => {
+    currentWeekStart = dow;
+  };
 
   return factory;
 })();
@@ -271,6 +293,7 @@ describe("ui/listViewModel", () => {
   describe("buildListGroups", () => {
     beforeEach(() => {
       momentStub.locale("en");
+      momentStub.weekStart(1);
     });
 
     it("groups by year (current behavior)", () => {
@@ -359,6 +382,34 @@ describe("ui/listViewModel", () => {
       expect(groups[0].groups[0].label).toBe(`W${week}`);
     });
 
+    it("attaches periodic note periods to group headers", () => {
+      const items = [makeItem("2025-12-15")];
+
+      const byMonth = buildListGroups(items, "year_month");
+      expect(byMonth[0].period).toEqual({ granularity: "year", dateStr: "2025-01-01" });
+      expect(byMonth[0].groups[0].period).toEqual({
+        granularity: "month",
+        dateStr: "2025-12-01",
+      });
+
+      const byQuarter = buildListGroups(items, "year_quarter");
+      expect(byQuarter[0].groups[0].period).toEqual({
+        granularity: "quarter",
+        dateStr: "2025-10-01",
+      });
+
+      const byWeek = buildListGroups(items, "year_week");
+      expect(byWeek[0].period).toBeUndefined();
+      expect(byWeek[0].groups[0].period?.granularity).toBe("week");
+    });
+
+    it("links ISO week groups to weekly notes only when locale weeks start on Monday", () => {
+      momentStub.weekStart(0);
+      const groups = buildListGroups([makeItem("2025-06-18")], "year_week");
+      expect(groups[0].groups[0].id).toBe("2025/25");
+      expect(groups[0].groups[0].period).toBeUndefined();
+    });
+
     it("sorts groups by most recent descendant epoch", () => {
       const items = [makeItem("2024-12-31"), makeItem("2025-01-01")];
       const groups = buildListGroups(items, "year");
@@ -381,4 +432,370 @@ describe("ui/listViewModel", () => {
       ]);
     });
   });
+
+  describe("custom grouping presets", () => {
+    const makeRealItem = (dateStr: string, file?: TFile): ListItem => {
+      const date = realMoment.utc(dateStr, "YYYY-MM-DD", true);
+      return {
+        ...makeItem(dateStr),
+        date,
+        epoch: date.valueOf(),
+        file,
+        filePath: file?.path ?? "",
+        dailyNoteExists: !!file,
+      };
+    };
+
+    it("builds groups from a segment chain with per-segment label formats", () => {
+      const preset = createCustomGroupingPreset({
+        id: "custom-a",
+        segments: [
+          createListGroupSegment({ kind: "year", format: "[Year] YY" }),
+          createListGroupSegment({ kind: "month", format: "MMM" }),
+          createListGroupSegment({ kind: "weekday" }),
+        ],
+      });
+      const items = [makeRealItem("2025-12-15"), makeRealItem("2025-12-16"), makeRealItem("2025-11-30")];
+      const groups = buildListGroups(items, "custom-a", "desc", { customPresets: [preset] });
+
+      expect(groups.map((g) => [g.id, g.label])).toEqual([["2025", "Year 25"]]);
+      expect(groups[0].groups.map((g) => [g.id, g.label])).toEqual([
+        ["2025/12", "Dec"],
+        ["2025/11", "Nov"],
+      ]);
+      expect(groups[0].groups[0].groups.map((g) => [g.id, g.label])).toEqual([
+        ["2025/12/D1", "Monday"],
+        ["2025/12/D2", "Tuesday"],
+      ]);
+      expect(groups[0].groups[0].period).toEqual({ granularity: "month", dateStr: "2025-12-01" });
+    });
+
+    it("orders weekday groups Monday to Sunday whatever the sort order", () => {
+      const preset = createCustomGroupingPreset({
+        id: "custom-w",
+        segments: [createListGroupSegment({ kind: "weekday" })],
+      });
+      // Newest day is a Wednesday, oldest a Sunday
+      const items = [
+        makeRealItem("2025-12-17"),
+        makeRealItem("2025-12-14"),
+        makeRealItem("2025-12-15"),
+        makeRealItem("2025-12-09"),
+      ];
+      const expected = ["D1", "D2", "D3", "D7"];
+
+      for (const sortOrder of ["desc", "asc"]) {
+        const groups = buildListGroups(items, "custom-w", sortOrder, { customPresets: [preset] });
+        expect(groups.map((g) => g.id)).toEqual(expected);
+      }
+    });
+
+    it("keeps ids stable when only the label format changes", () => {
+      const date = realMoment.utc("2025-06-15", "YYYY-MM-DD", true);
+      const withFormat = (format: string) =>
+        getListGroupIdPathForDate(date, "custom-a", {
+          customPresets: [
+            createCustomGroupingPreset({
+              id: "custom-a",
+              segments: [
+                createListGroupSegment({ kind: "iso_year", format }),
+                createListGroupSegment({ kind: "iso_week", format }),
+              ],
+            }),
+          ],
+        });
+
+      expect(withFormat("")).toEqual(["2025", "2025/24"]);
+      expect(withFormat("[Week of] MMM D")).toEqual(withFormat(""));
+    });
+
+    it("groups fiscal years by the year they end in", () => {
+      const preset = createCustomGroupingPreset({
+        id: "custom-fy",
+        segments: [createListGroupSegment({ kind: "fiscal_year", startMonth: 4 })],
+      });
+      const items = [makeRealItem("2025-03-31"), makeRealItem("2025-04-01"), makeRealItem("2026-03-31")];
+      const groups = buildListGroups(items, "custom-fy", "asc", { customPresets: [preset] });
+
+      expect(groups.map((g) => [g.id, g.label, g.items.length])).toEqual([
+        ["FY2025", "FY25", 1],
+        ["FY2026", "FY26", 2],
+      ]);
+      expect(getFiscalDate(items[1].date, 4).format("YYYY-MM-DD")).toBe("2026-01-01");
+      expect(getFiscalDate(items[1].date, 1)).toBe(items[1].date);
+    });
+
+    it("groups by a frontmatter property value", () => {
+      const preset = createCustomGroupingPreset({
+        id: "custom-p",
+        segments: [createListGroupSegment({ kind: "property", property: "project", format: "#{{value}}" })],
+      });
+      const values: Record<string, unknown> = {
+        "a.md": "Alpha",
+        "b.md": ["Alpha", "beta"],
+        "c.md": undefined,
+      };
+      const items = [
+        makeRealItem("2025-01-03", mockFile("a.md")),
+        makeRealItem("2025-01-02", mockFile("b.md")),
+        makeRealItem("2025-01-01", mockFile("c.md")),
+      ];
+      const groups = buildListGroups(items, "custom-p", "desc", {
+        customPresets: [preset],
+        getPropertyValue: (file) => values[file.path],
+      });
+
+      expect(groups.map((g) => [g.id, g.label, g.items.length])).toEqual([
+        ["alpha", "#Alpha", 2],
+        ["~", "No project", 1],
+      ]);
+    });
+
+    it("groups by fiscal year and quarter from the year-start month", () => {
+      const items = [
+        makeRealItem("2025-03-31", mockFile("a.md")),
+        makeRealItem("2025-04-01", mockFile("b.md")),
+        makeRealItem("2025-07-01"),
+      ];
+      const groups = buildListGroups(items, "fiscal_year_quarter", "desc", {
+        fiscalYearStartMonth: 4,
+      });
+
+      expect(groups.map((g) => [g.id, g.label, g.dailyNoteCount])).toEqual([
+        ["FY2026", "FY26", 1],
+        ["FY2025", "FY25", 1],
+      ]);
+      expect(groups[0].period).toBeUndefined();
+      expect(groups[0].groups.map((g) => [g.id, g.label])).toEqual([
+        ["FY2026/Q2", "FY26 Q2"],
+        ["FY2026/Q1", "FY26 Q1"],
+      ]);
+      // An April start lines fiscal quarters up with calendar quarters and their notes.
+      expect(groups[0].groups[1].period).toEqual({ granularity: "quarter", dateStr: "2025-04-01" });
+
+      const academic = buildListGroups(items, "fiscal_year_quarter", "desc", {
+        fiscalYearStartMonth: 9,
+      });
+      expect(academic.map((g) => g.id)).toEqual(["FY2025"]);
+      expect(academic[0].groups[0].period).toBeUndefined();
+
+      expect(formatFiscalQuarterLabel(items[1].date, 4)).toBe("FY26 Q1");
+      expect(formatFiscalQuarterLabel(items[1].date, 1)).toBe("FY25 Q2");
+    });
+
+    it("uses the settings year start for custom fiscal segments without their own", () => {
+      const preset = createCustomGroupingPreset({
+        id: "custom-fq",
+        segments: [createListGroupSegment({ kind: "fiscal_quarter", startMonth: 0 })],
+      });
+      const path = getListGroupIdPathForDate(makeRealItem("2025-10-15").date, "custom-fq", {
+        customPresets: [preset],
+        fiscalYearStartMonth: 10,
+      });
+      expect(path).toEqual(["Q1"]);
+    });
+
+    it("falls back to years when the custom preset is gone", () => {
+      const groups = buildListGroups([makeRealItem("2025-01-03")], "custom-missing", "desc", {
+        customPresets: [],
+      });
+      expect(groups.map((g) => g.id)).toEqual(["2025"]);
+    });
+  });
+
+  describe("group aggregates", () => {
+    const makeNote = (
+      dateStr: string,
+      metrics: Partial<ListItem> = {}
+    ): ListItem => ({
+      ...makeItem(dateStr),
+      file: mockFile(`${dateStr}.md`),
+      filePath: `${dateStr}.md`,
+      dailyNoteExists: true,
+      ...metrics,
+    });
+
+    it("totals metrics, created counts and colour tags for leaf and parent groups", () => {
+      const items = [
+        makeNote("2025-12-01", { wordCount: 100, openTaskCount: 2, completedTaskCount: 1 }),
+        makeNote("2025-12-02", { wordCount: 300, completedTaskCount: 4, createdNotesCount: 1 }),
+        { ...makeItem("2025-12-03"), createdFilesCount: 2 },
+        makeNote("2025-11-30", { wordCount: 50, openTaskCount: 1 }),
+      ];
+      const colors: Record<string, string> = {
+        "2025-12-01": "#ef4444",
+        "2025-12-02": "#ef4444",
+        "2025-11-30": "#3b82f6",
+      };
+
+      const groups = buildListGroups(items, "year_month", "desc", {
+        getItemColor: (item) => colors[item.dateStr] ?? null,
+      });
+
+      expect(groups[0].groups[0].aggregates).toEqual({
+        wordCount: 400,
+        averageWordCount: 200,
+        openTaskCount: 2,
+        completedTaskCount: 5,
+        createdNotesCount: 1,
+        createdFilesCount: 2,
+        colorCounts: { "#ef4444": 2 },
+        longestStreak: 2,
+      });
+      expect(groups[0].aggregates).toEqual({
+        wordCount: 450,
+        averageWordCount: 150,
+        openTaskCount: 3,
+        completedTaskCount: 5,
+        createdNotesCount: 1,
+        createdFilesCount: 2,
+        colorCounts: { "#ef4444": 2, "#3b82f6": 1 },
+        // Nov 30 → Dec 2 crosses the month groups
+        longestStreak: 3,
+      });
+    });
+
+    it("leaves word totals at zero when metrics weren't read", () => {
+      const [group] = buildListGroups([makeNote("2025-01-01"), makeNote("2025-01-03")], "year");
+      expect(group.aggregates.wordCount).toBe(0);
+      expect(group.aggregates.averageWordCount).toBe(0);
+      expect(group.aggregates.colorCounts).toEqual({});
+      expect(group.aggregates.longestStreak).toBe(1);
+    });
+
+    it("streaks only count consecutive daily notes inside the group", () => {
+      const items = [
+        makeNote("2024-12-30"),
+        makeNote("2024-12-31"),
+        makeNote("2025-01-01"),
+        makeItem("2025-01-02"),
+        makeNote("2025-01-03"),
+      ];
+      const groups = buildListGroups(items, "year");
+      expect(groups.map((g) => [g.id, g.aggregates.longestStreak])).toEqual([
+        ["2025", 1],
+        ["2024", 2],
+      ]);
+      // The created-only day on Jan 2 breaks the run
+      expect(buildListGroups(items, "year_month")[0].groups[0].aggregates.longestStreak).toBe(1);
+    });
+
+    it("buildListItems carries note metrics through", () => {
+      const date = parseDateStr("2025-02-01");
+      const [item] = buildListItems({
+        dailyNoteCandidates: [
+          {
+            date,
+            dateUID: "2025-02-01",
+            dateStr: "2025-02-01",
+            epoch: date.valueOf(),
+            year: 2025,
+            file: mockFile("2025-02-01.md"),
+            filePath: "2025-02-01.md",
+            mtime: 1,
+            wordCount: 12,
+            openTaskCount: 1,
+            completedTaskCount: 0,
+            qualifies: true,
+          },
+        ],
+        includeCreatedDays: false,
+        parseDateStr,
+        getDayDateUID,
+      });
+
+      expect([item.wordCount, item.openTaskCount, item.completedTaskCount]).toEqual([12, 1, 0]);
+    });
+
+    it("normalizes the selected aggregates into display order", () => {
+      expect(normalizeListGroupAggregateKeys(["streak", "bogus", "words"])).toEqual([
+        "words",
+        "streak",
+      ]);
+      expect(normalizeListGroupAggregateKeys(null)).toEqual([]);
+    });
+  });
+
+  describe("item sort keys", () => {
+    const makeDay = (dateStr: string, extra: Partial<ListItem> = {}): ListItem => ({
+      ...makeItem(dateStr),
+      dailyNoteExists: true,
+      ...extra,
+    });
+
+    const items = [
+      makeDay("2025-03-01", { mtime: 30, wordCount: 10, openTaskCount: 2, createdFilesCount: 1 }),
+      makeDay("2025-03-02", { mtime: 10, wordCount: 500, openTaskCount: 0, createdFilesCount: 3 }),
+      makeDay("2025-03-03", { mtime: 20, openTaskCount: 2 }),
+      makeDay("2024-12-31", { mtime: 99, wordCount: 900 }),
+    ];
+    const order = (
+      sortKey: string,
+      sortKeyOrder = "desc",
+      sortOrder = "desc",
+      getItemColor?: (i: ListItem) => string | null
+    ) =>
+      buildListGroups(items, "year", sortOrder, {
+        sortKey: normalizeListViewSortKey(sortKey),
+        sortKeyOrder: normalizeListViewSortOrder(sortKeyOrder),
+        getItemColor,
+      }).map((g) => [g.id, g.items.map((i) => i.dateStr.slice(5))]);
+
+    it("sorts days inside groups while groups stay chronological", () => {
+      expect(order("mtime")).toEqual([
+        ["2025", ["03-01", "03-03", "03-02"]],
+        ["2024", ["12-31"]],
+      ]);
+      expect(order("word_count", "asc")).toEqual([
+        ["2025", ["03-03", "03-01", "03-02"]],
+        ["2024", ["12-31"]],
+      ]);
+      expect(order("created_files")[0][1]).toEqual(["03-02", "03-01", "03-03"]);
+    });
+
+    it("keeps the day direction separate from the group order", () => {
+      expect(order("word_count", "desc", "asc")).toEqual([
+        ["2024", ["12-31"]],
+        ["2025", ["03-02", "03-01", "03-03"]],
+      ]);
+    });
+
+    it("breaks ties by date in the group order", () => {
+      expect(order("open_tasks")[0][1]).toEqual(["03-03", "03-01", "03-02"]);
+      expect(order("open_tasks", "asc")[0][1]).toEqual(["03-02", "03-03", "03-01"]);
+      expect(order("open_tasks", "desc", "asc")[1][1]).toEqual(["03-01", "03-03", "03-02"]);
+    });
+
+    it("sorts by colour menu order with untagged days last", () => {
+      const colors: Record<string, string> = {
+        "2025-03-01": "#3b82f6", // blue
+        "2025-03-03": "#ef4444", // red
+      };
+      expect(order("color", "desc", "desc", (i) => colors[i.dateStr] ?? null)[0][1]).toEqual([
+        "03-03",
+        "03-01",
+        "03-02",
+      ]);
+    });
+
+    it("falls back to date for unknown sort keys", () => {
+      expect(normalizeListViewSortKey("bogus")).toBe("date");
+      expect(order("bogus")[0][1]).toEqual(["03-03", "03-02", "03-01"]);
+    });
+  });
+
+  describe("getListGroupLeaves", () => {
+    it("flattens nested groups into leaves with their label path", () => {
+      const items = [makeItem("2025-12-15"), makeItem("2025-11-30"), makeItem("2024-01-02")];
+      const leaves = getListGroupLeaves(buildListGroups(items, "year_month_name"));
+
+      expect(leaves.map((l) => l.id)).toEqual(["2025/12", "2025/11", "2024/01"]);
+      expect(leaves.map((l) => l.labels)).toEqual([
+        ["2025", "December"],
+        ["2025", "November"],
+        ["2024", "January"],
+      ]);
+      expect(leaves[0].items.map((i) => i.dateStr)).toEqual(["2025-12-15"]);
+    });
+  });
 });
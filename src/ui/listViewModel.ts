@@ -1,5 +1,14 @@
 import type { TFile, moment } from "obsidian";
 
+import {
+  getSegmentFormat,
+  isCustomGroupingPresetId,
+  normalizeFiscalStartMonth,
+  type CustomGroupingPreset,
+  type ListGroupSegment,
+} from "./customGrouping";
+import { LIST_ITEM_TAG_COLORS } from "./listItemColorTagMenu";
+
 type Moment = moment.Moment;
 
 export type ListViewGroupingPreset =
@@ -8,7 +17,26 @@ export type ListViewGroupingPreset =
   | "year_month_name"
   | "year_month_num_name"
   | "year_quarter"
-  | "year_week";
+  | "year_week"
+  | "fiscal_year"
+  | "fiscal_year_quarter"
+  // Id of a user-defined preset (see src/ui/customGrouping.ts)
+  | `custom-${string}`;
+
+export type ListGroupingOptions = {
+  // First month (1-12) of fiscal years; 1 = calendar years
+  fiscalYearStartMonth?: number;
+  // User-defined presets, looked up when the selected preset is a custom id
+  customPresets?: CustomGroupingPreset[];
+  // Frontmatter value for property segments; without it every day lands in the "no value" group
+  getPropertyValue?: (file: TFile, property: string) => unknown;
+  // Colour tag of a day row, counted in the group's colour distribution and used by the `color` sort
+  getItemColor?: (item: ListItem) => string | null;
+  // How days are ordered inside each group; groups themselves always stay in date order
+  sortKey?: ListViewSortKey;
+  // Direction of `sortKey` (desc = newest or highest first), separate from the group order
+  sortKeyOrder?: ListViewSortOrder;
+};
 
 export type ListViewSortOrder = "desc" | "asc";
 
@@ -24,6 +52,29 @@ export function normalizeListViewSortOrder(
   }
 }
 
+// What days are sorted by inside a group. `date` follows the group order; the other keys
+// have their own direction, except for `color`, which follows the colour menu order.
+export type ListViewSortKey =
+  | "date"
+  | "mtime"
+  | "word_count"
+  | "open_tasks"
+  | "created_files"
+  | "color";
+
+export function normalizeListViewSortKey(sortKey: unknown): ListViewSortKey {
+  switch (sortKey) {
+    case "mtime":
+    case "word_count":
+    case "open_tasks":
+    case "created_files":
+    case "color":
+      return sortKey;
+    default:
+      return "date";
+  }
+}
+
 export type CreatedOnDayBucket = { notes: TFile[]; files: TFile[] };
 
 export type DailyNoteCandidate = {
@@ -37,6 +88,11 @@ export type DailyNoteCandidate = {
   filePath: string;
   mtime: number;
 
+  // Note metrics, when they were read for the group aggregates
+  wordCount?: number;
+  openTaskCount?: number;
+  completedTaskCount?: number;
+
   qualifies: boolean;
 };
 
@@ -53,17 +109,74 @@ export type ListItem = {
   mtime: number;
   dailyNoteExists: boolean;
 
+  // Daily note metrics (absent when they weren't read)
+  wordCount?: number;
+  openTaskCount?: number;
+  completedTaskCount?: number;
+
   // Created-on-day counts (by file creation time)
   // Notes count excludes the daily note itself (if present), since it's already represented by the day row.
   createdNotesCount: number;
   createdFilesCount: number;
 };
 
+export type ListGroupPeriodGranularity = "week" | "month" | "quarter" | "year";
+
+// The periodic note a group header links to (e.g. the monthly note for `2025/12`).
+export type ListGroupPeriod = {
+  granularity: ListGroupPeriodGranularity;
+  // Any YYYY-MM-DD date inside the period
+  dateStr: string;
+};
+
+export type ListGroupAggregateKey =
+  | "words"
+  | "average_words"
+  | "tasks"
+  | "created"
+  | "colors"
+  | "streak";
+
+export const LIST_GROUP_AGGREGATE_KEYS: { key: ListGroupAggregateKey; label: string }[] = [
+  { key: "words", label: "Words" },
+  { key: "average_words", label: "Average words" },
+  { key: "tasks", label: "Tasks" },
+  { key: "created", label: "Created items" },
+  { key: "colors", label: "Colour tags" },
+  { key: "streak", label: "Longest streak" },
+];
+
+export function normalizeListGroupAggregateKeys(value: unknown): ListGroupAggregateKey[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  // Keep the display order of LIST_GROUP_AGGREGATE_KEYS whatever the stored order.
+  return LIST_GROUP_AGGREGATE_KEYS.map((k) => k.key).filter((key) => value.includes(key));
+}
+
+// Totals over every day in a group, including nested groups.
+export type ListGroupAggregates = {
+  // Word and task totals cover only daily notes whose metrics were read
+  wordCount: number;
+  // Rounded mean over those notes (0 when there are none)
+  averageWordCount: number;
+  openTaskCount: number;
+  completedTaskCount: number;
+  createdNotesCount: number;
+  createdFilesCount: number;
+  // Colour tag → number of tagged days
+  colorCounts: Record<string, number>;
+  // Most consecutive days that have a daily note
+  longestStreak: number;
+};
+
 export type ListGroupNode = {
   // Stable path-like key, e.g. `2025/12`
   id: string;
   // Display label for the group header
   label: string;
+  // Matching periodic note period (absent for groups without one, e.g. ISO years)
+  period?: ListGroupPeriod;
   // Child groups (empty for leaf groups)
   groups: ListGroupNode[];
   // Leaf group items (empty for non-leaf groups)
@@ -72,6 +185,8 @@ export type ListGroupNode = {
   // Aggregate daily note count (descendants where dailyNoteExists === true)
   dailyNoteCount: number;
 
+  aggregates: ListGroupAggregates;
+
   // Internal: max descendant epoch for sorting by recency
   maxEpoch?: number;
 };
@@ -176,6 +291,12 @@ export function buildListItems(params: {
         mtime: candidate.mtime,
         dailyNoteExists: true,
 
+        ...(candidate.wordCount !== undefined ? { wordCount: candidate.wordCount } : {}),
+        ...(candidate.openTaskCount !== undefined ? { openTaskCount: candidate.openTaskCount } : {}),
+        ...(candidate.completedTaskCount !== undefined
+          ? { completedTaskCount: candidate.completedTaskCount }
+          : {}),
+
         createdNotesCount: countCreatedNotesExcluding(bucket, candidate.filePath),
         createdFilesCount: countCreatedFiles(bucket),
       });
@@ -228,30 +349,191 @@ export function normalizeListViewGroupingPreset(
     case "year_month_num_name":
     case "year_quarter":
     case "year_week":
+    case "fiscal_year":
+    case "fiscal_year_quarter":
       return preset;
     default:
-      return "year";
+      return isCustomGroupingPresetId(preset) ? preset : "year";
   }
 }
 
-type GroupSegment = { idPart: string; label: string };
+type GroupSegment = {
+  idPart: string;
+  label: string;
+  period?: ListGroupPeriod;
+  // Fixed position among sibling groups (e.g. Monday→Sunday) instead of most recent day first
+  order?: number;
+};
+
+function getYearPeriod(date: Moment): ListGroupPeriod {
+  return { granularity: "year", dateStr: `${date.year()}-01-01` };
+}
+
+function getMonthPeriod(date: Moment): ListGroupPeriod {
+  return {
+    granularity: "month",
+    dateStr: `${date.year()}-${pad2(date.month() + 1)}-01`,
+  };
+}
+
+function getQuarterPeriod(date: Moment): ListGroupPeriod {
+  const firstMonth = (date.quarter() - 1) * 3 + 1;
+  return {
+    granularity: "quarter",
+    dateStr: `${date.year()}-${pad2(firstMonth)}-01`,
+  };
+}
+
+/**
+ * Week groups here are ISO weeks (Monday to Sunday), while weekly notes follow the locale
+ * week. Only when the locale week also starts on Monday do both cover the same days, so
+ * only then does an ISO week group link to (and summarise into) a weekly note.
+ */
+function getWeekPeriod(date: Moment): ListGroupPeriod | undefined {
+  return date.localeData().firstDayOfWeek() === 1
+    ? { granularity: "week", dateStr: date.format("YYYY-MM-DD") }
+    : undefined;
+}
+
+/**
+ * The date shifted so that a year starting in `startMonth` (1-12) lines up with the
+ * calendar year it ends in: with an April start, 2025-04-01 becomes 2026-01-01, so
+ * `year()` is the fiscal year (FY26) and `quarter()` the fiscal quarter.
+ */
+export function getFiscalDate(date: Moment, startMonth: number): Moment {
+  return startMonth > 1 && startMonth <= 12 ? date.clone().add(13 - startMonth, "months") : date;
+}
+
+/**
+ * Fiscal year and quarter of a date, e.g. `FY26 Q1`.
+ */
+export function formatFiscalQuarterLabel(date: Moment, startMonth: number): string {
+  return getFiscalDate(date, startMonth).format("[FY]YY [Q]Q");
+}
+
+function getFiscalYearSegment(date: Moment, startMonth: number, format = "[FY]YY"): GroupSegment {
+  const fiscal = getFiscalDate(date, startMonth);
+  return {
+    idPart: `FY${fiscal.year()}`,
+    label: fiscal.format(format),
+    // Only a January start lines up with the yearly note.
+    ...(startMonth === 1 ? { period: getYearPeriod(date) } : {}),
+  };
+}
+
+function getFiscalQuarterSegment(date: Moment, startMonth: number, format: string): GroupSegment {
+  const fiscal = getFiscalDate(date, startMonth);
+  return {
+    idPart: `Q${fiscal.quarter()}`,
+    label: fiscal.format(format),
+    // Fiscal quarters match calendar quarters (and their notes) when the year starts on one.
+    ...((startMonth - 1) % 3 === 0 ? { period: getQuarterPeriod(date) } : {}),
+  };
+}
+
+function getPropertyGroupValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    for (const v of value as unknown[]) {
+      const s = getPropertyGroupValue(v);
+      if (s) {
+        return s;
+      }
+    }
+    return "";
+  }
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return String(value).trim();
+  }
+  return "";
+}
+
+function getSegmentStartMonth(segment: ListGroupSegment, options: ListGroupingOptions): number {
+  return normalizeFiscalStartMonth(segment.startMonth || options.fiscalYearStartMonth);
+}
+
+function getCustomSegment(
+  date: Moment,
+  segment: ListGroupSegment,
+  file: TFile | undefined,
+  options: ListGroupingOptions
+): GroupSegment {
+  const format = getSegmentFormat(segment);
+
+  // Ids only depend on the date (or property value), never on the label format, so
+  // open/closed state survives format and locale changes.
+  switch (segment.kind) {
+    case "year":
+      return { idPart: String(date.year()), label: date.format(format), period: getYearPeriod(date) };
+    case "iso_year":
+      return { idPart: String(date.isoWeekYear()), label: date.format(format) };
+    case "quarter":
+      return {
+        idPart: `Q${date.quarter()}`,
+        label: date.format(format),
+        period: getQuarterPeriod(date),
+      };
+    case "month":
+      return {
+        idPart: pad2(date.month() + 1),
+        label: date.format(format),
+        period: getMonthPeriod(date),
+      };
+    case "iso_week":
+      return { idPart: pad2(date.isoWeek()), label: date.format(format), period: getWeekPeriod(date) };
+    case "weekday":
+      return {
+        idPart: `D${date.isoWeekday()}`,
+        label: date.format(format),
+        order: date.isoWeekday(),
+      };
+    case "fiscal_year":
+      return getFiscalYearSegment(date, getSegmentStartMonth(segment, options), format);
+    case "fiscal_quarter":
+      return getFiscalQuarterSegment(date, getSegmentStartMonth(segment, options), format);
+    case "property": {
+      const raw =
+        file && segment.property && options.getPropertyValue
+          ? options.getPropertyValue(file, segment.property)
+          : undefined;
+      const value = getPropertyGroupValue(raw);
+      if (!value) {
+        return { idPart: "~", label: `No ${segment.property || "value"}` };
+      }
+      return {
+        idPart: encodeURIComponent(value.toLowerCase()),
+        label: format.replace(/\{\{\s*value\s*\}\}/g, () => value),
+      };
+    }
+  }
+}
 
 function getSegmentsForDate(
   date: Moment,
-  preset: ListViewGroupingPreset
+  preset: ListViewGroupingPreset,
+  options: ListGroupingOptions = {},
+  file?: TFile
 ): GroupSegment[] {
+  if (isCustomGroupingPresetId(preset)) {
+    const custom = options.customPresets?.find((p) => p.id === preset);
+    if (custom?.segments.length) {
+      return custom.segments.map((segment) => getCustomSegment(date, segment, file, options));
+    }
+    // A deleted custom preset falls back to the default grouping.
+    return getSegmentsForDate(date, "year");
+  }
+
   switch (preset) {
     case "year": {
       const year = String(date.year());
-      return [{ idPart: year, label: year }];
+      return [{ idPart: year, label: year, period: getYearPeriod(date) }];
     }
 
     case "year_month": {
       const year = String(date.year());
       const month = pad2(date.month() + 1);
       return [
-        { idPart: year, label: year },
-        { idPart: month, label: month },
+        { idPart: year, label: year, period: getYearPeriod(date) },
+        { idPart: month, label: month, period: getMonthPeriod(date) },
       ];
     }
 
@@ -260,9 +542,9 @@ function getSegmentsForDate(
       const monthId = pad2(date.month() + 1);
       const monthLabel = date.format("MMMM");
       return [
-        { idPart: year, label: year },
+        { idPart: year, label: year, period: getYearPeriod(date) },
         // Keep id numeric so open/closed state is stable across locale changes.
-        { idPart: monthId, label: monthLabel },
+        { idPart: monthId, label: monthLabel, period: getMonthPeriod(date) },
       ];
     }
 
@@ -271,9 +553,13 @@ function getSegmentsForDate(
       const monthId = pad2(date.month() + 1);
       const monthLabel = date.format("MMMM");
       return [
-        { idPart: year, label: year },
+        { idPart: year, label: year, period: getYearPeriod(date) },
         // Keep id numeric so open/closed state is stable across locale changes.
-        { idPart: monthId, label: `${monthId}-${monthLabel}` },
+        {
+          idPart: monthId,
+          label: `${monthId}-${monthLabel}`,
+          period: getMonthPeriod(date),
+        },
       ];
     }
 
@@ -281,8 +567,19 @@ function getSegmentsForDate(
       const year = String(date.year());
       const q = `Q${date.quarter()}`;
       return [
-        { idPart: year, label: year },
-        { idPart: q, label: q },
+        { idPart: year, label: year, period: getYearPeriod(date) },
+        { idPart: q, label: q, period: getQuarterPeriod(date) },
+      ];
+    }
+
+    case "fiscal_year":
+      return [getFiscalYearSegment(date, normalizeFiscalStartMonth(options.fiscalYearStartMonth))];
+
+    case "fiscal_year_quarter": {
+      const startMonth = normalizeFiscalStartMonth(options.fiscalYearStartMonth);
+      return [
+        getFiscalYearSegment(date, startMonth),
+        getFiscalQuarterSegment(date, startMonth, "[FY]YY [Q]Q"),
       ];
     }
 
@@ -290,8 +587,13 @@ function getSegmentsForDate(
       const isoYear = String(date.isoWeekYear());
       const week = pad2(date.isoWeek());
       return [
+        // ISO week-years don't map onto a yearly note, so only weeks get a period.
         { idPart: isoYear, label: isoYear },
-        { idPart: week, label: `W${week}` },
+        {
+          idPart: week,
+          label: `W${week}`,
+          period: getWeekPeriod(date),
+        },
       ];
     }
   }
@@ -299,10 +601,13 @@ function getSegmentsForDate(
 
 export function getListGroupIdPathForDate(
   date: Moment,
-  preset: unknown
+  preset: unknown,
+  options?: ListGroupingOptions,
+  // Daily note for `date`, read by property segments
+  file?: TFile
 ): string[] {
   const normalized = normalizeListViewGroupingPreset(preset);
-  const segments = getSegmentsForDate(date, normalized);
+  const segments = getSegmentsForDate(date, normalized, options, file);
 
   const path: string[] = [];
   const parts: string[] = [];
@@ -317,15 +622,138 @@ export function getListGroupIdPathForDate(
 type ListGroupNodeInternal = {
   id: string;
   label: string;
+  period?: ListGroupPeriod;
   children: Map<string, ListGroupNodeInternal>;
   items: ListItem[];
   maxEpoch?: number;
+  order?: number;
 };
 
+function getColorRank(color: string | null | undefined): [number, string] {
+  if (!color) {
+    // Untagged days last
+    return [LIST_ITEM_TAG_COLORS.length + 1, ""];
+  }
+  const index = LIST_ITEM_TAG_COLORS.findIndex((c) => c.color === color);
+  // Custom colours after the menu colours, grouped by value
+  return index >= 0 ? [index, ""] : [LIST_ITEM_TAG_COLORS.length, color];
+}
+
+function getSortValue(item: ListItem, sortKey: ListViewSortKey): number {
+  switch (sortKey) {
+    case "mtime":
+      return item.mtime ?? 0;
+    case "word_count":
+      return item.wordCount ?? 0;
+    case "open_tasks":
+      return item.openTaskCount ?? 0;
+    case "created_files":
+      return item.createdFilesCount ?? 0;
+    default:
+      return item.epoch;
+  }
+}
+
+/**
+ * Comparator for days inside a group. Other keys than `date` sort in `sortKeyOrder`; ties
+ * (and the `date` key) fall back to the date in the group order `sortOrder`, so equal
+ * values keep a chronological order.
+ */
+export function compareListItems(
+  a: ListItem,
+  b: ListItem,
+  sortKey: unknown,
+  sortOrder: unknown,
+  sortKeyOrder: unknown,
+  getItemColor?: (item: ListItem) => string | null
+): number {
+  const key = normalizeListViewSortKey(sortKey);
+  const byDate = (normalizeListViewSortOrder(sortOrder) === "asc" ? 1 : -1) * (a.epoch - b.epoch);
+  const direction = normalizeListViewSortOrder(sortKeyOrder) === "asc" ? 1 : -1;
+
+  if (key === "color") {
+    const [aRank, aColor] = getColorRank(getItemColor?.(a));
+    const [bRank, bColor] = getColorRank(getItemColor?.(b));
+    return aRank - bRank || aColor.localeCompare(bColor) || byDate;
+  }
+  if (key === "date") {
+    return byDate;
+  }
+  return direction * (getSortValue(a, key) - getSortValue(b, key)) || byDate;
+}
+
+function getDayNumber(dateStr: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateStr);
+  if (!match) {
+    return null;
+  }
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / 86_400_000;
+}
+
+function getLongestStreak(items: ListItem[]): number {
+  const days = Array.from(
+    new Set(
+      items
+        .filter((item) => item.dailyNoteExists)
+        .map((item) => getDayNumber(item.dateStr))
+        .filter((day): day is number => day !== null)
+    )
+  ).sort((a, b) => a - b);
+
+  let longest = 0;
+  let current = 0;
+  for (let i = 0; i < days.length; i++) {
+    current = i > 0 && days[i] - days[i - 1] === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+export function computeListGroupAggregates(
+  items: ListItem[],
+  getItemColor?: (item: ListItem) => string | null
+): ListGroupAggregates {
+  let wordCount = 0;
+  let wordCountNotes = 0;
+  let openTaskCount = 0;
+  let completedTaskCount = 0;
+  let createdNotesCount = 0;
+  let createdFilesCount = 0;
+  const colorCounts: Record<string, number> = {};
+
+  for (const item of items) {
+    if (item.wordCount !== undefined) {
+      wordCount += item.wordCount;
+      wordCountNotes += 1;
+    }
+    openTaskCount += item.openTaskCount ?? 0;
+    completedTaskCount += item.completedTaskCount ?? 0;
+    createdNotesCount += item.createdNotesCount ?? 0;
+    createdFilesCount += item.createdFilesCount ?? 0;
+
+    const color = getItemColor?.(item);
+    if (color) {
+      colorCounts[color] = (colorCounts[color] ?? 0) + 1;
+    }
+  }
+
+  return {
+    wordCount,
+    averageWordCount: wordCountNotes ? Math.round(wordCount / wordCountNotes) : 0,
+    openTaskCount,
+    completedTaskCount,
+    createdNotesCount,
+    createdFilesCount,
+    colorCounts,
+    longestStreak: getLongestStreak(items),
+  };
+}
+
 export function buildListGroups(
   items: ListItem[],
   preset: unknown,
-  sortOrder?: unknown
+  sortOrder?: unknown,
+  options?: ListGroupingOptions
 ): ListGroupNode[] {
   const normalized = normalizeListViewGroupingPreset(preset);
   const normalizedSortOrder = normalizeListViewSortOrder(sortOrder);
@@ -334,18 +762,28 @@ export function buildListGroups(
     a: ListGroupNodeInternal,
     b: ListGroupNodeInternal
   ): number => {
+    if (a.order !== undefined && b.order !== undefined) {
+      return a.order - b.order;
+    }
     const aEpoch = a.maxEpoch ?? 0;
     const bEpoch = b.maxEpoch ?? 0;
     return normalizedSortOrder === "asc" ? aEpoch - bEpoch : bEpoch - aEpoch;
   };
 
-  const compareItemByEpoch = (a: ListItem, b: ListItem): number =>
-    normalizedSortOrder === "asc" ? a.epoch - b.epoch : b.epoch - a.epoch;
+  const compareItems = (a: ListItem, b: ListItem): number =>
+    compareListItems(
+      a,
+      b,
+      options?.sortKey,
+      normalizedSortOrder,
+      options?.sortKeyOrder,
+      options?.getItemColor
+    );
 
   const root = new Map<string, ListGroupNodeInternal>();
 
   for (const item of items) {
-    const segs = getSegmentsForDate(item.date, normalized);
+    const segs = getSegmentsForDate(item.date, normalized, options, item.file);
 
     let current = root;
     const parts: string[] = [];
@@ -360,6 +798,8 @@ export function buildListGroups(
         node = {
           id,
           label: seg.label,
+          period: seg.period,
+          order: seg.order,
           children: new Map(),
           items: [],
           maxEpoch: -Infinity,
@@ -380,6 +820,11 @@ export function buildListGroups(
     }
   }
 
+  const collectItems = (node: ListGroupNodeInternal): ListItem[] =>
+    node.children.size
+      ? Array.from(node.children.values()).flatMap(collectItems)
+      : node.items;
+
   const finalize = (node: ListGroupNodeInternal): ListGroupNode => {
     const groups = Array.from(node.children.values())
       .sort(compareGroupByEpoch)
@@ -387,7 +832,7 @@ export function buildListGroups(
 
     const sortedItems = groups.length
       ? []
-      : node.items.slice().sort(compareItemByEpoch);
+      : node.items.slice().sort(compareItems);
 
     const dailyNoteCount = groups.length
       ? groups.reduce((sum, g) => sum + (g.dailyNoteCount ?? 0), 0)
@@ -396,13 +841,49 @@ export function buildListGroups(
     return {
       id: node.id,
       label: node.label,
+      ...(node.period ? { period: node.period } : {}),
       groups,
       // Only leaf groups should carry items.
       items: sortedItems,
       dailyNoteCount,
+      aggregates: computeListGroupAggregates(collectItems(node), options?.getItemColor),
       maxEpoch: node.maxEpoch,
     };
   };
 
   return Array.from(root.values()).sort(compareGroupByEpoch).map(finalize);
 }
+
+export type ListGroupLeaf = {
+  // Leaf group id, e.g. `2025/12`
+  id: string;
+  // Labels from the top-level group down to the leaf, e.g. ["2025", "December"]
+  labels: string[];
+  items: ListItem[];
+};
+
+/**
+ * Flatten a group tree into its leaf groups (in display order), keeping the
+ * label path. Used where nested collapsible headers would be too heavy, such as
+ * search results.
+ */
+export function getListGroupLeaves(groups: ListGroupNode[]): ListGroupLeaf[] {
+  const out: ListGroupLeaf[] = [];
+
+  const visit = (node: ListGroupNode, labels: string[]): void => {
+    const path = [...labels, node.label];
+    if (node.groups?.length) {
+      for (const child of node.groups) {
+        visit(child, path);
+      }
+    } else {
+      out.push({ id: node.id, labels: path, items: node.items });
+    }
+  };
+
+  for (const group of groups) {
+    visit(group, []);
+  }
+
+  return out;
+}
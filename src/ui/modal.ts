@@ -4,15 +4,21 @@ import type { App } from "obsidian";
 interface IConfirmationDialogParams {
   cta: string;
   onAccept: (event: MouseEvent) => Promise<void>;
+  // Called when the dialog is closed without accepting
+  onCancel?: () => void;
   text: string;
   title: string;
 }
 
 export class ConfirmationModal extends Modal {
+  private accepted = false;
+  private onCancel?: () => void;
+
   constructor(app: App, config: IConfirmationDialogParams) {
     super(app);
 
-    const { cta, onAccept, text, title } = config;
+    const { cta, onAccept, onCancel, text, title } = config;
+    this.onCancel = onCancel;
 
     this.contentEl.createEl("h2", { text: title });
     this.contentEl.createEl("p", { text });
@@ -28,6 +34,7 @@ export class ConfirmationModal extends Modal {
           text: cta,
         })
         .addEventListener("click", (e) => {
+          this.accepted = true;
           void onAccept(e).then(
             () => {
               this.close();
@@ -39,13 +46,20 @@ export class ConfirmationModal extends Modal {
         });
     });
   }
+
+  onClose(): void {
+    if (!this.accepted) {
+      this.onCancel?.();
+    }
+  }
 }
 
 export function createConfirmationDialog({
   cta,
   onAccept,
+  onCancel,
   text,
   title,
 }: IConfirmationDialogParams): void {
-  new ConfirmationModal(window.app, { cta, onAccept, text, title }).open();
+  new ConfirmationModal(window.app, { cta, onAccept, onCancel, text, title }).open();
 }
@@ -1,12 +1,24 @@
 import type { TFile } from "obsidian";
 
+import { countTasks, type TaskCounts } from "./taskCounts";
 import { getWordCount as getWordCountFromText } from "./utils";
 
 export type NoteMetrics = {
   wordCount: number;
   openTaskCount: number;
+  completedTaskCount: number;
+  cancelledTaskCount: number;
+  inProgressTaskCount: number;
 };
 
+const EMPTY_METRICS: NoteMetrics = Object.freeze({
+  wordCount: 0,
+  openTaskCount: 0,
+  completedTaskCount: 0,
+  cancelledTaskCount: 0,
+  inProgressTaskCount: 0,
+});
+
 type CacheEntry = {
   mtime: number;
   value: NoteMetrics;
@@ -16,8 +28,6 @@ type CacheEntry = {
 // Tuned for large vaults but still safe in long-running sessions.
 const MAX_ENTRIES = 2000;
 
-const OPEN_TASK_PATTERN = /(-|\*) \[ \]/g;
-
 // LRU via Map insertion order.
 const cache = new Map<string, CacheEntry>();
 
@@ -43,13 +53,17 @@ function prune(): void {
 async function computeMetrics(file: TFile): Promise<NoteMetrics> {
   const vault = window.app?.vault;
   if (!vault?.cachedRead) {
-    return { wordCount: 0, openTaskCount: 0 };
+    return EMPTY_METRICS;
   }
 
   const text = await vault.cachedRead(file);
+  const tasks = countTasks(text);
   return {
     wordCount: getWordCountFromText(text),
-    openTaskCount: (text.match(OPEN_TASK_PATTERN) || []).length,
+    openTaskCount: tasks.open,
+    completedTaskCount: tasks.completed,
+    cancelledTaskCount: tasks.cancelled,
+    inProgressTaskCount: tasks.inProgress,
   };
 }
 
@@ -57,7 +71,7 @@ export async function getNoteMetrics(
   file: TFile | null | undefined
 ): Promise<NoteMetrics> {
   if (!file) {
-    return { wordCount: 0, openTaskCount: 0 };
+    return EMPTY_METRICS;
   }
 
   const key = file.path ?? "";
@@ -108,3 +122,13 @@ export async function getOpenTaskCount(
 ): Promise<number> {
   return (await getNoteMetrics(file)).openTaskCount;
 }
+
+export async function getTaskCounts(file: TFile | null | undefined): Promise<TaskCounts> {
+  const metrics = await getNoteMetrics(file);
+  return {
+    open: metrics.openTaskCount,
+    completed: metrics.completedTaskCount,
+    cancelled: metrics.cancelledTaskCount,
+    inProgress: metrics.inProgressTaskCount,
+  };
+}
@@ -0,0 +1,279 @@
+import { Modal, Notice, Setting } from "obsidian";
+import type { App } from "obsidian";
+
+import {
+  createOllamaClient,
+  describeOllamaModel,
+  formatOllamaModelSize,
+  getOllamaPullPercent,
+} from "src/ollama/client";
+import type { OllamaClient, OllamaModel, OllamaPullProgress } from "src/ollama/client";
+
+import { createConfirmationDialog } from "./modal";
+
+interface IOllamaModelManagerParams {
+  baseUrl: string;
+  timeoutMs?: number;
+  // Model used for titles, marked in the list
+  currentModel: string;
+  onSelectModel: (model: string) => Promise<void>;
+}
+
+function describeModelRow(model: OllamaModel): string {
+  const details = model.details ?? {};
+  return [
+    formatOllamaModelSize(model.size),
+    details.family,
+    details.parameter_size,
+    details.quantization_level,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function describePullProgress(progress: OllamaPullProgress): string {
+  const percent = getOllamaPullPercent(progress);
+  const status = progress.status ?? "";
+  return percent === null ? status : `${status} (${percent}%)`;
+}
+
+/**
+ * Installed Ollama models (`/api/tags`) with details (`/api/show`), delete, and a pull
+ * form that streams `/api/pull` progress. A pull keeps running when the modal is closed
+ * and reports back with a notice.
+ */
+export class OllamaModelManagerModal extends Modal {
+  private client: OllamaClient;
+  private currentModel: string;
+  private isOpen = false;
+
+  private listEl: HTMLElement | null = null;
+  private pullInputEl: HTMLInputElement | null = null;
+  private pullButtonEl: HTMLButtonElement | null = null;
+  private progressEl: HTMLProgressElement | null = null;
+  private progressLabelEl: HTMLElement | null = null;
+  private pullController: AbortController | null = null;
+
+  constructor(
+    app: App,
+    private config: IOllamaModelManagerParams
+  ) {
+    super(app);
+    this.client = createOllamaClient({ baseUrl: config.baseUrl, timeoutMs: config.timeoutMs });
+    this.currentModel = config.currentModel;
+  }
+
+  onOpen(): void {
+    this.isOpen = true;
+    const { contentEl } = this;
+    contentEl.addClass("calendar-model-manager");
+
+    contentEl.createEl("h2", { text: "Ollama models" });
+    contentEl.createEl("p", { cls: "setting-item-description", text: this.config.baseUrl });
+
+    const pullEl = contentEl.createDiv("calendar-model-manager-pull");
+    this.pullInputEl = pullEl.createEl("input", {
+      type: "text",
+      placeholder: "Model to pull, e.g. gemma3:4b",
+    });
+    this.pullInputEl.value = this.currentModel;
+    this.pullInputEl.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        this.onClickPull();
+      }
+    });
+    this.pullButtonEl = pullEl.createEl("button", { cls: "mod-cta", text: "Pull" });
+    this.pullButtonEl.addEventListener("click", () => this.onClickPull());
+
+    const progressRowEl = contentEl.createDiv("calendar-model-manager-progress");
+    this.progressEl = progressRowEl.createEl("progress");
+    this.progressLabelEl = progressRowEl.createSpan();
+    this.renderPullState(null);
+
+    this.listEl = contentEl.createDiv("calendar-model-manager-list");
+    void this.refreshModels();
+  }
+
+  onClose(): void {
+    this.isOpen = false;
+    this.contentEl.empty();
+  }
+
+  private async refreshModels(): Promise<void> {
+    const listEl = this.listEl;
+    if (!listEl) {
+      return;
+    }
+
+    listEl.empty();
+    listEl.createEl("p", { cls: "setting-item-description", text: "Loading models…" });
+
+    let models: OllamaModel[];
+    try {
+      models = (await this.client.listModels()).models ?? [];
+    } catch (err) {
+      console.error("[Calendar] Failed to list Ollama models", err);
+      const msg = err instanceof Error ? err.message : String(err);
+      listEl.empty();
+      listEl.createEl("p", { cls: "mod-warning", text: `Couldn't reach Ollama: ${msg}` });
+      return;
+    }
+
+    listEl.empty();
+    if (!models.length) {
+      listEl.createEl("p", { cls: "setting-item-description", text: "No models installed yet." });
+      return;
+    }
+
+    models.sort((a, b) => (a.name ?? "").localeCompare(b.name ?? ""));
+    for (const model of models) {
+      if (model.name) {
+        this.renderModel(listEl, model.name, model);
+      }
+    }
+  }
+
+  private renderModel(listEl: HTMLElement, name: string, model: OllamaModel): void {
+    const inUse = name.toLowerCase() === this.currentModel.toLowerCase();
+    let detailsEl: HTMLElement | null = null;
+
+    const setting = new Setting(listEl).setName(name).setDesc(describeModelRow(model));
+
+    setting.addExtraButton((button) => {
+      button.setIcon("info");
+      button.setTooltip("Show details");
+      button.onClick(() => {
+        if (detailsEl) {
+          detailsEl.remove();
+          detailsEl = null;
+          return;
+        }
+        detailsEl = listEl.createDiv("calendar-model-manager-details");
+        setting.settingEl.insertAdjacentElement("afterend", detailsEl);
+        void this.renderDetails(detailsEl, name);
+      });
+    });
+
+    setting.addExtraButton((button) => {
+      button.setIcon("trash");
+      button.setTooltip("Delete model");
+      button.onClick(() => {
+        createConfirmationDialog({
+          title: "Delete model",
+          text: `Delete ${name} from Ollama? It can be pulled again later.`,
+          cta: "Delete",
+          onAccept: async () => {
+            try {
+              await this.client.deleteModel(name);
+              new Notice(`Deleted ${name}.`);
+            } catch (err) {
+              console.error("[Calendar] Failed to delete Ollama model", err);
+              const msg = err instanceof Error ? err.message : String(err);
+              new Notice(`Failed to delete ${name}: ${msg}`);
+            }
+            await this.refreshModels();
+          },
+        });
+      });
+    });
+
+    setting.addButton((button) => {
+      button.setButtonText(inUse ? "In use" : "Use");
+      button.setDisabled(inUse);
+      button.onClick(() => {
+        void this.config
+          .onSelectModel(name)
+          .then(() => {
+            this.currentModel = name;
+            return this.refreshModels();
+          })
+          .catch((err) => console.error("[Calendar] Failed to select Ollama model", err));
+      });
+    });
+  }
+
+  private async renderDetails(detailsEl: HTMLElement, name: string): Promise<void> {
+    detailsEl.setText("Loading…");
+    try {
+      const rows = describeOllamaModel(await this.client.showModel(name));
+      detailsEl.empty();
+      if (!rows.length) {
+        detailsEl.setText("No details reported.");
+        return;
+      }
+      for (const [label, value] of rows) {
+        const rowEl = detailsEl.createDiv();
+        rowEl.createSpan({ cls: "calendar-model-manager-details-label", text: `${label}: ` });
+        rowEl.createSpan({ text: value });
+      }
+    } catch (err) {
+      console.error("[Calendar] Failed to load Ollama model details", err);
+      const msg = err instanceof Error ? err.message : String(err);
+      detailsEl.setText(`Failed to load details: ${msg}`);
+    }
+  }
+
+  private renderPullState(progress: OllamaPullProgress | null): void {
+    const pulling = !!this.pullController;
+    this.pullButtonEl?.setText(pulling ? "Cancel" : "Pull");
+    this.pullButtonEl?.toggleClass("mod-cta", !pulling);
+    this.progressEl?.parentElement?.toggleClass("is-hidden", !pulling);
+
+    const percent = progress ? getOllamaPullPercent(progress) : null;
+    if (this.progressEl) {
+      if (percent === null) {
+        // Indeterminate while Ollama reports no byte counts.
+        this.progressEl.removeAttribute("value");
+      } else {
+        this.progressEl.max = 100;
+        this.progressEl.value = percent;
+      }
+    }
+    this.progressLabelEl?.setText(progress ? describePullProgress(progress) : "");
+  }
+
+  private onClickPull(): void {
+    if (this.pullController) {
+      this.pullController.abort();
+      return;
+    }
+
+    const model = (this.pullInputEl?.value ?? "").trim();
+    if (!model) {
+      new Notice("Enter a model name to pull.");
+      return;
+    }
+
+    const controller = new AbortController();
+    this.pullController = controller;
+    this.renderPullState({ status: `Pulling ${model}…` });
+
+    void this.client
+      .pullModel(model, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (this.isOpen) {
+            this.renderPullState(progress);
+          }
+        },
+      })
+      .then(
+        () => {
+          new Notice(`Pulled ${model}.`);
+        },
+        (err) => {
+          console.error("[Calendar] Failed to pull Ollama model", err);
+          const msg = err instanceof Error ? err.message : String(err);
+          new Notice(`Failed to pull ${model}: ${msg}`);
+        }
+      )
+      .finally(() => {
+        this.pullController = null;
+        if (this.isOpen) {
+          this.renderPullState(null);
+          void this.refreshModels();
+        }
+      });
+  }
+}
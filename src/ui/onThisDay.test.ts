@@ -0,0 +1,42 @@
+import { findOnThisDay, formatYearsAgo, getISOWeekParts } from "./onThisDay";
+
+describe("ui/onThisDay", () => {
+  test("getISOWeekParts handles year boundaries", () => {
+    expect(getISOWeekParts(new Date(Date.UTC(2025, 11, 29)))).toEqual({ year: 2026, week: 1 });
+    expect(getISOWeekParts(new Date(Date.UTC(2021, 0, 3)))).toEqual({ year: 2020, week: 53 });
+    expect(getISOWeekParts(new Date(Date.UTC(2025, 5, 15)))).toEqual({ year: 2025, week: 24 });
+  });
+
+  test("finds the same calendar date in earlier years, most recent first", () => {
+    const entries = findOnThisDay("2025-06-15", [
+      "2023-06-15",
+      "2024-06-15",
+      "2025-06-15",
+      "2024-06-16",
+      "2026-06-15",
+      "junk",
+    ]);
+
+    expect(entries).toEqual([
+      { dateStr: "2024-06-15", yearsAgo: 1, match: "date" },
+      { dateStr: "2023-06-15", yearsAgo: 2, match: "date" },
+    ]);
+  });
+
+  test("optionally adds notes from the same ISO week", () => {
+    // 2025-06-15 is a Sunday in ISO week 24; 2024-06-10..16 is ISO week 24 of 2024.
+    const dates = ["2024-06-15", "2024-06-10", "2024-06-17", "2023-06-13"];
+
+    expect(findOnThisDay("2025-06-15", dates).map((e) => e.dateStr)).toEqual(["2024-06-15"]);
+    expect(findOnThisDay("2025-06-15", dates, { includeSameWeek: true })).toEqual([
+      { dateStr: "2024-06-15", yearsAgo: 1, match: "date" },
+      { dateStr: "2024-06-10", yearsAgo: 1, match: "week" },
+      { dateStr: "2023-06-13", yearsAgo: 2, match: "week" },
+    ]);
+  });
+
+  test("formatYearsAgo", () => {
+    expect(formatYearsAgo(1)).toBe("1 year ago");
+    expect(formatYearsAgo(3)).toBe("3 years ago");
+  });
+});
@@ -0,0 +1,87 @@
+// How an earlier note relates to today: same calendar date, or same ISO week.
+export type OnThisDayMatch = "date" | "week";
+
+export type OnThisDayEntry = {
+  // YYYY-MM-DD
+  dateStr: string;
+  yearsAgo: number;
+  match: OnThisDayMatch;
+};
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseDateStr(dateStr: string): Date | null {
+  const m = DATE_RE.exec(dateStr ?? "");
+  if (!m) {
+    return null;
+  }
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * ISO week-numbering year and week of a UTC date.
+ */
+export function getISOWeekParts(date: Date): { year: number; week: number } {
+  const d = new Date(date.getTime());
+  const day = (d.getUTCDay() + 6) % 7; // Mon=0..Sun=6
+  d.setUTCDate(d.getUTCDate() - day + 3); // Thursday of this week
+  const year = d.getUTCFullYear();
+
+  const firstThursday = new Date(Date.UTC(year, 0, 4));
+  const firstDay = (firstThursday.getUTCDay() + 6) % 7;
+  firstThursday.setUTCDate(firstThursday.getUTCDate() - firstDay + 3);
+
+  const week = 1 + Math.round((d.getTime() - firstThursday.getTime()) / (7 * 86400000));
+  return { year, week };
+}
+
+/**
+ * Daily notes from the same calendar date in earlier years and, optionally,
+ * from the same ISO week of earlier ISO years. Most recent first; a note that
+ * matches the date is not listed again as a week match.
+ */
+export function findOnThisDay(
+  todayStr: string,
+  dateStrs: string[],
+  options: { includeSameWeek?: boolean } = {}
+): OnThisDayEntry[] {
+  const today = parseDateStr(todayStr);
+  if (!today) {
+    return [];
+  }
+
+  const monthDay = todayStr.slice(5);
+  const todayYear = today.getUTCFullYear();
+  const todayWeek = getISOWeekParts(today);
+
+  const out: OnThisDayEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const dateStr of dateStrs) {
+    const date = parseDateStr(dateStr);
+    if (!date || seen.has(dateStr) || dateStr >= todayStr) {
+      continue;
+    }
+
+    if (dateStr.slice(5) === monthDay) {
+      seen.add(dateStr);
+      out.push({ dateStr, yearsAgo: todayYear - date.getUTCFullYear(), match: "date" });
+      continue;
+    }
+
+    if (options.includeSameWeek) {
+      const week = getISOWeekParts(date);
+      if (week.week === todayWeek.week && week.year < todayWeek.year) {
+        seen.add(dateStr);
+        out.push({ dateStr, yearsAgo: todayWeek.year - week.year, match: "week" });
+      }
+    }
+  }
+
+  return out.sort((a, b) => (a.dateStr < b.dateStr ? 1 : a.dateStr > b.dateStr ? -1 : 0));
+}
+
+export function formatYearsAgo(yearsAgo: number): string {
+  return yearsAgo === 1 ? "1 year ago" : `${yearsAgo} years ago`;
+}
@@ -0,0 +1,90 @@
+import {
+  createPropertyRule,
+  getPropertyRuleColorKey,
+  matchesPropertyRule,
+  normalizePropertyRuleColor,
+  resolvePropertyRuleEffects,
+  sanitizePropertyRules,
+} from "./propertyRules";
+
+describe("ui/propertyRules", () => {
+  describe("matchesPropertyRule", () => {
+    test("equals compares strings case-insensitively, numbers and booleans", () => {
+      const rule = createPropertyRule({ property: "type", value: "Vacation" });
+      expect(matchesPropertyRule(rule, { type: "vacation" })).toBe(true);
+      expect(matchesPropertyRule(rule, { type: "work" })).toBe(false);
+
+      const mood = createPropertyRule({ property: "mood", value: "3" });
+      expect(matchesPropertyRule(mood, { mood: 3 })).toBe(true);
+      expect(matchesPropertyRule(mood, { mood: 4 })).toBe(false);
+
+      const flag = createPropertyRule({ property: "gym", value: "true" });
+      expect(matchesPropertyRule(flag, { gym: true })).toBe(true);
+    });
+
+    test("equals matches any element of a list property", () => {
+      const rule = createPropertyRule({ property: "people", value: "alex" });
+      expect(matchesPropertyRule(rule, { people: ["Sam", "Alex"] })).toBe(true);
+    });
+
+    test("range supports open bounds and numeric strings", () => {
+      const rule = createPropertyRule({ property: "mood", operator: "range", min: 4, max: null });
+      expect(matchesPropertyRule(rule, { mood: 5 })).toBe(true);
+      expect(matchesPropertyRule(rule, { mood: "4" })).toBe(true);
+      expect(matchesPropertyRule(rule, { mood: 3 })).toBe(false);
+      expect(matchesPropertyRule(rule, { mood: "high" })).toBe(false);
+    });
+
+    test("exists ignores empty values", () => {
+      const rule = createPropertyRule({ property: "Location", operator: "exists" });
+      expect(matchesPropertyRule(rule, { location: "Paris" })).toBe(true);
+      expect(matchesPropertyRule(rule, { location: "" })).toBe(false);
+      expect(matchesPropertyRule(rule, { location: [] })).toBe(false);
+      expect(matchesPropertyRule(rule, {})).toBe(false);
+    });
+  });
+
+  test("resolvePropertyRuleEffects collects dots and keeps the first background/emoji", () => {
+    const rules = [
+      createPropertyRule({ property: "mood", operator: "range", min: 4, max: 5, color: "#22c55e" }),
+      createPropertyRule({ property: "type", value: "vacation", effect: "background", color: "#eab308" }),
+      createPropertyRule({ property: "type", operator: "exists", effect: "background", color: "#ef4444" }),
+      createPropertyRule({ property: "type", value: "vacation", effect: "emoji", emoji: "🏖️" }),
+    ];
+
+    expect(resolvePropertyRuleEffects(rules, { mood: 5, type: "vacation" })).toEqual({
+      dotColors: ["#22c55e"],
+      background: "#eab308",
+      emoji: "🏖️",
+    });
+    expect(resolvePropertyRuleEffects(rules, null)).toEqual({
+      dotColors: [],
+      background: null,
+      emoji: null,
+    });
+  });
+
+  test("sanitizePropertyRules drops invalid entries and normalizes fields", () => {
+    const rules = sanitizePropertyRules([
+      { id: "a", property: " mood ", operator: "range", min: "2", max: "x", effect: "dot", color: "#F00" },
+      { id: "a", property: "duplicate" },
+      { property: "no id" },
+      "junk",
+      { id: "b", property: "type", operator: "bogus", effect: "bogus" },
+    ]);
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0]).toMatchObject({ id: "a", property: "mood", min: 2, max: null, color: "#ef4444" });
+    expect(rules[1]).toMatchObject({ id: "b", operator: "equals", effect: "dot" });
+    expect(sanitizePropertyRules("nope")).toEqual([]);
+  });
+
+  test("rule colours snap to the palette and map to a key", () => {
+    expect(normalizePropertyRuleColor("#22C55E")).toBe("#22c55e");
+    expect(normalizePropertyRuleColor("#ff0000")).toBe("#ef4444");
+    expect(normalizePropertyRuleColor("not a colour")).toBe("");
+    expect(getPropertyRuleColorKey("#3b82f6")).toBe("blue");
+    expect(getPropertyRuleColorKey("#2563eb")).toBe("blue");
+    expect(getPropertyRuleColorKey("")).toBeNull();
+  });
+});
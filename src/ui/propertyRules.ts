@@ -0,0 +1,248 @@
+import { normalizeListItemColor } from "src/listItemColorTags";
+
+import { LIST_ITEM_TAG_COLORS } from "./listItemColorTagMenu";
+
+export type PropertyRuleOperator = "equals" | "range" | "exists";
+export type PropertyRuleEffect = "dot" | "background" | "emoji";
+
+export type PropertyRule = {
+  id: string;
+  property: string;
+  operator: PropertyRuleOperator;
+  // `equals`: compared case-insensitively (any element for list properties)
+  value: string;
+  // `range`: inclusive bounds, either may be open
+  min: number | null;
+  max: number | null;
+  effect: PropertyRuleEffect;
+  // `dot` / `background`: #rrggbb from the list colour tag palette
+  color: string;
+  // `emoji`
+  emoji: string;
+};
+
+export type PropertyRuleEffects = {
+  dotColors: string[];
+  background: string | null;
+  emoji: string | null;
+};
+
+// The day cell only has room for a few extra dots.
+export const MAX_PROPERTY_RULE_DOTS = 3;
+
+const OPERATORS: PropertyRuleOperator[] = ["equals", "range", "exists"];
+const EFFECTS: PropertyRuleEffect[] = ["dot", "background", "emoji"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function asFiniteNumberOrNull(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+export function createPropertyRuleId(): string {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createPropertyRule(overrides: Partial<PropertyRule> = {}): PropertyRule {
+  return {
+    id: createPropertyRuleId(),
+    property: "",
+    operator: "equals",
+    value: "",
+    min: null,
+    max: null,
+    effect: "dot",
+    color: "#3b82f6",
+    emoji: "",
+    ...overrides,
+  };
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+}
+
+/**
+ * Snap a colour to the closest palette colour; styles.css only knows the palette.
+ */
+export function normalizePropertyRuleColor(input: string): string {
+  const color = normalizeListItemColor(input);
+  if (!color) {
+    return "";
+  }
+
+  const [r, g, b] = hexToRgb(color);
+  let best = LIST_ITEM_TAG_COLORS[0].color;
+  let bestDistance = Infinity;
+  for (const { color: candidate } of LIST_ITEM_TAG_COLORS) {
+    const [cr, cg, cb] = hexToRgb(candidate);
+    const distance = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Palette key (`red`, `blue`, ...) used in the day cell's classes and data attributes.
+ */
+export function getPropertyRuleColorKey(color: string): string | null {
+  const match = LIST_ITEM_TAG_COLORS.find((c) => c.color === normalizePropertyRuleColor(color));
+  return match ? match.label.toLowerCase() : null;
+}
+
+export function sanitizePropertyRules(value: unknown): PropertyRule[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const out: PropertyRule[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of value) {
+    if (!isRecord(raw)) {
+      continue;
+    }
+
+    const id = typeof raw["id"] === "string" && raw["id"].trim() ? raw["id"].trim() : "";
+    if (!id || seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+
+    const operator = OPERATORS.includes(raw["operator"] as PropertyRuleOperator)
+      ? (raw["operator"] as PropertyRuleOperator)
+      : "equals";
+    const effect = EFFECTS.includes(raw["effect"] as PropertyRuleEffect)
+      ? (raw["effect"] as PropertyRuleEffect)
+      : "dot";
+
+    out.push({
+      id,
+      property: typeof raw["property"] === "string" ? raw["property"].trim() : "",
+      operator,
+      value: typeof raw["value"] === "string" ? raw["value"] : "",
+      min: asFiniteNumberOrNull(raw["min"]),
+      max: asFiniteNumberOrNull(raw["max"]),
+      effect,
+      color: normalizePropertyRuleColor(typeof raw["color"] === "string" ? raw["color"] : ""),
+      emoji: typeof raw["emoji"] === "string" ? raw["emoji"].trim() : "",
+    });
+  }
+
+  return out;
+}
+
+export function getPropertyValue(frontmatter: Record<string, unknown>, property: string): unknown {
+  if (property in frontmatter) {
+    return frontmatter[property];
+  }
+
+  // Property names are matched case-insensitively as a fallback (Obsidian treats them that way).
+  const lower = property.toLowerCase();
+  const key = Object.keys(frontmatter).find((k) => k.toLowerCase() === lower);
+  return key === undefined ? undefined : frontmatter[key];
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (typeof value === "string") {
+    return value.trim() !== "";
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return true;
+}
+
+function scalarEquals(actual: unknown, expected: string): boolean {
+  const want = expected.trim().toLowerCase();
+  if (typeof actual === "string") {
+    return actual.trim().toLowerCase() === want;
+  }
+  if (typeof actual === "number") {
+    const n = asFiniteNumberOrNull(expected);
+    return n !== null && actual === n;
+  }
+  if (typeof actual === "boolean") {
+    return String(actual) === want;
+  }
+  return false;
+}
+
+export function matchesPropertyRule(
+  rule: PropertyRule,
+  frontmatter: Record<string, unknown> | null | undefined
+): boolean {
+  if (!rule.property || !frontmatter) {
+    return false;
+  }
+
+  const actual = getPropertyValue(frontmatter, rule.property);
+
+  switch (rule.operator) {
+    case "exists":
+      return isPresent(actual);
+    case "equals":
+      return Array.isArray(actual)
+        ? actual.some((v) => scalarEquals(v, rule.value))
+        : scalarEquals(actual, rule.value);
+    case "range": {
+      const n = asFiniteNumberOrNull(actual);
+      if (n === null || (rule.min === null && rule.max === null)) {
+        return false;
+      }
+      return (rule.min === null || n >= rule.min) && (rule.max === null || n <= rule.max);
+    }
+  }
+}
+
+/**
+ * Combine all matching rules: every dot rule adds a dot (capped), while the
+ * first matching background / emoji rule wins.
+ */
+export function resolvePropertyRuleEffects(
+  rules: PropertyRule[],
+  frontmatter: Record<string, unknown> | null | undefined
+): PropertyRuleEffects {
+  const effects: PropertyRuleEffects = { dotColors: [], background: null, emoji: null };
+  if (!frontmatter) {
+    return effects;
+  }
+
+  for (const rule of rules) {
+    if (!matchesPropertyRule(rule, frontmatter)) {
+      continue;
+    }
+
+    switch (rule.effect) {
+      case "dot":
+        if (rule.color && effects.dotColors.length < MAX_PROPERTY_RULE_DOTS) {
+          effects.dotColors.push(rule.color);
+        }
+        break;
+      case "background":
+        effects.background ??= rule.color || null;
+        break;
+      case "emoji":
+        effects.emoji ??= rule.emoji || null;
+        break;
+    }
+  }
+
+  return effects;
+}
@@ -0,0 +1,80 @@
+import {
+  buildSearchSnippet,
+  DailyNoteSearchIndex,
+  parseSearchQuery,
+  type SearchableFile,
+} from "./search";
+
+function file(path: string, mtime = 1): SearchableFile {
+  return { path, stat: { mtime } };
+}
+
+describe("ui/search", () => {
+  test("parseSearchQuery keeps quoted phrases and de-duplicates", () => {
+    expect(parseSearchQuery(' Standup "Design Review" standup ')).toEqual([
+      "standup",
+      "design review",
+    ]);
+    expect(parseSearchQuery('  ""  ')).toEqual([]);
+  });
+
+  test("buildSearchSnippet highlights merged matches", () => {
+    expect(buildSearchSnippet("Met Alex about the alexandria trip", ["alex", "andria"])).toEqual([
+      { text: "Met ", highlight: false },
+      { text: "Alex", highlight: true },
+      { text: " about the ", highlight: false },
+      { text: "alexandria", highlight: true },
+      { text: " trip", highlight: false },
+    ]);
+  });
+
+  test("buildSearchSnippet trims long lines around the first match", () => {
+    const line = `${"a ".repeat(100)}needle${" b".repeat(100)}`;
+    const segments = buildSearchSnippet(line, ["needle"]);
+
+    expect(segments[0]).toEqual({ text: "…", highlight: false });
+    expect(segments[segments.length - 1]).toEqual({ text: "…", highlight: false });
+    expect(segments.filter((s) => s.highlight)).toEqual([{ text: "needle", highlight: true }]);
+    expect(segments.map((s) => s.text).join("").length).toBeLessThanOrEqual(122);
+  });
+
+  describe("DailyNoteSearchIndex", () => {
+    test("requires every term and reports matching lines", async () => {
+      const contents: Record<string, string> = {
+        "a.md": "# Monday\nStandup with Sam\n\nDesign review ran long",
+        "b.md": "Standup only",
+      };
+      const index = new DailyNoteSearchIndex<SearchableFile>((f) =>
+        Promise.resolve(contents[f.path])
+      );
+
+      const results = await index.search([file("a.md"), file("b.md")], 'standup "design review"');
+      expect(results).toHaveLength(1);
+      expect(results[0].file.path).toBe("a.md");
+      expect(results[0].matchCount).toBe(2);
+      expect(results[0].matches.map((m) => m.line)).toEqual([1, 3]);
+    });
+
+    test("reads incrementally and follows mtime, invalidation and deletions", async () => {
+      const reads: string[] = [];
+      let text = "old note";
+      const index = new DailyNoteSearchIndex<SearchableFile>((f) => {
+        reads.push(f.path);
+        return Promise.resolve(f.path === "a.md" ? text : "other");
+      });
+
+      await index.search([file("a.md"), file("b.md")], "note");
+      await index.search([file("a.md"), file("b.md")], "old");
+      expect(reads).toEqual(["a.md", "b.md"]);
+
+      text = "new note";
+      expect(await index.search([file("a.md", 2)], "new")).toHaveLength(1);
+      expect(index.size).toBe(1);
+
+      text = "newer note";
+      index.invalidate("a.md");
+      expect(await index.search([file("a.md", 2)], "newer")).toHaveLength(1);
+      expect(reads).toEqual(["a.md", "b.md", "a.md", "a.md"]);
+    });
+  });
+});
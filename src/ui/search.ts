@@ -0,0 +1,247 @@
+export type SearchSnippetSegment = {
+  text: string;
+  highlight: boolean;
+};
+
+export type SearchMatch = {
+  // 0-based line number in the note
+  line: number;
+  segments: SearchSnippetSegment[];
+};
+
+export type SearchResult<F> = {
+  file: F;
+  // Total matching lines (`matches` may be capped)
+  matchCount: number;
+  matches: SearchMatch[];
+};
+
+// The subset of `TFile` the index needs; keeps this module testable without Obsidian.
+export type SearchableFile = {
+  path: string;
+  stat?: { mtime: number };
+};
+
+export const MAX_SEARCH_SNIPPETS_PER_NOTE = 3;
+const SNIPPET_MAX_LENGTH = 120;
+const SNIPPET_CONTEXT = 30;
+const READ_CONCURRENCY = 10;
+
+/**
+ * Split a query into lowercase terms. Double-quoted phrases stay together:
+ * `standup "design review"` -> ["standup", "design review"].
+ */
+export function parseSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  const re = /"([^"]*)"|(\S+)/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(query ?? "")) !== null) {
+    const term = (m[1] ?? m[2] ?? "").trim().toLowerCase();
+    if (term && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+
+  return terms;
+}
+
+function findTermRanges(lowerLine: string, terms: string[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    let from = 0;
+    let idx: number;
+    while ((idx = lowerLine.indexOf(term, from)) !== -1) {
+      ranges.push([idx, idx + term.length]);
+      from = idx + term.length;
+    }
+  }
+
+  // Merge overlapping/adjacent ranges so highlights don't nest.
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r[0] <= last[1]) {
+      last[1] = Math.max(last[1], r[1]);
+    } else {
+      merged.push([r[0], r[1]]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Build a highlighted snippet for one line. Long lines are cut to a window
+ * around the first match, with `…` marking the trimmed ends.
+ */
+export function buildSearchSnippet(line: string, terms: string[]): SearchSnippetSegment[] {
+  const ranges = findTermRanges(line.toLowerCase(), terms);
+
+  let start = 0;
+  let end = line.length;
+  if (line.length > SNIPPET_MAX_LENGTH) {
+    start = Math.max(0, (ranges[0]?.[0] ?? 0) - SNIPPET_CONTEXT);
+    end = Math.min(line.length, start + SNIPPET_MAX_LENGTH);
+  }
+
+  const segments: SearchSnippetSegment[] = [];
+  const push = (text: string, highlight: boolean) => {
+    if (text) {
+      segments.push({ text, highlight });
+    }
+  };
+
+  if (start > 0) {
+    push("…", false);
+  }
+
+  let pos = start;
+  for (const [from, to] of ranges) {
+    if (to <= start || from >= end) {
+      continue;
+    }
+    const a = Math.max(from, start);
+    const b = Math.min(to, end);
+    push(line.slice(pos, a), false);
+    push(line.slice(a, b), true);
+    pos = b;
+  }
+  push(line.slice(pos, end), false);
+
+  if (end < line.length) {
+    push("…", false);
+  }
+
+  return segments;
+}
+
+/**
+ * Search one note. Every term has to appear somewhere in the note; lines
+ * containing any term become matches.
+ */
+export function searchLines(
+  lines: string[],
+  lowerLines: string[],
+  terms: string[],
+  maxSnippets = MAX_SEARCH_SNIPPETS_PER_NOTE
+): { matchCount: number; matches: SearchMatch[] } | null {
+  if (!terms.length) {
+    return null;
+  }
+
+  const found = new Set<string>();
+  const matchLines: number[] = [];
+
+  lowerLines.forEach((lower, i) => {
+    let hit = false;
+    for (const term of terms) {
+      if (lower.includes(term)) {
+        found.add(term);
+        hit = true;
+      }
+    }
+    if (hit) {
+      matchLines.push(i);
+    }
+  });
+
+  // A phrase can't span lines, so checking per line is enough.
+  if (found.size !== terms.length) {
+    return null;
+  }
+
+  return {
+    matchCount: matchLines.length,
+    matches: matchLines.slice(0, maxSnippets).map((line) => ({
+      line,
+      segments: buildSearchSnippet(lines[line], terms),
+    })),
+  };
+}
+
+type IndexEntry = {
+  mtime: number;
+  lines: string[];
+  lowerLines: string[];
+};
+
+/**
+ * Incremental full-text index over daily notes. Notes are read lazily on the
+ * first search and re-read only when their mtime changes or they are
+ * invalidated (see the modify/delete handlers in `CalendarView`).
+ */
+export class DailyNoteSearchIndex<F extends SearchableFile> {
+  private entries = new Map<string, IndexEntry>();
+
+  constructor(private readonly read: (file: F) => Promise<string>) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  invalidate(path: string): void {
+    this.entries.delete(path);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async ensure(files: F[]): Promise<void> {
+    const live = new Set(files.map((f) => f.path));
+    for (const path of Array.from(this.entries.keys())) {
+      if (!live.has(path)) {
+        this.entries.delete(path);
+      }
+    }
+
+    const stale = files.filter((f) => {
+      const entry = this.entries.get(f.path);
+      return !entry || entry.mtime !== (f.stat?.mtime ?? 0);
+    });
+
+    for (let i = 0; i < stale.length; i += READ_CONCURRENCY) {
+      const chunk = stale.slice(i, i + READ_CONCURRENCY);
+      await Promise.all(
+        chunk.map(async (file) => {
+          try {
+            const lines = (await this.read(file)).split(/\r?\n/);
+            this.entries.set(file.path, {
+              mtime: file.stat?.mtime ?? 0,
+              lines,
+              lowerLines: lines.map((l) => l.toLowerCase()),
+            });
+          } catch (err) {
+            console.error("[Calendar] Failed to index note for search", file.path, err);
+          }
+        })
+      );
+    }
+  }
+
+  async search(files: F[], query: string): Promise<SearchResult<F>[]> {
+    const terms = parseSearchQuery(query);
+    if (!terms.length) {
+      return [];
+    }
+
+    await this.ensure(files);
+
+    const results: SearchResult<F>[] = [];
+    for (const file of files) {
+      const entry = this.entries.get(file.path);
+      if (!entry) {
+        continue;
+      }
+      const hit = searchLines(entry.lines, entry.lowerLines, terms);
+      if (hit) {
+        results.push({ file, ...hit });
+      }
+    }
+
+    return results;
+  }
+}
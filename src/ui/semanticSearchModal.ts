@@ -0,0 +1,109 @@
+import { Modal, TFile } from "obsidian";
+import type { App } from "obsidian";
+
+import { searchEmbeddingIndex } from "src/io/embeddings";
+import { formatSimilarity } from "src/ollama/embeddings";
+import type { ISettings } from "src/settings";
+
+const SEARCH_RESULT_LIMIT = 20;
+
+/**
+ * Free-text search across the semantic index: the query is embedded with the same local
+ * model as the notes and the closest daily notes are listed.
+ */
+export class SemanticSearchModal extends Modal {
+  private inputEl: HTMLInputElement | null = null;
+  private resultsEl: HTMLElement | null = null;
+  // Ignores results of searches that were superseded
+  private searchNonce = 0;
+
+  constructor(
+    app: App,
+    private settings: ISettings
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass("calendar-semantic-search");
+
+    contentEl.createEl("h2", { text: "Semantic search" });
+    this.inputEl = contentEl.createEl("input", {
+      type: "search",
+      placeholder: "Describe a day, e.g. long walk by the sea",
+    });
+    this.inputEl.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        void this.search();
+      }
+    });
+    this.resultsEl = contentEl.createDiv("calendar-semantic-search-results");
+    this.inputEl.focus();
+  }
+
+  onClose(): void {
+    this.searchNonce++;
+    this.contentEl.empty();
+  }
+
+  private async search(): Promise<void> {
+    const resultsEl = this.resultsEl;
+    const query = (this.inputEl?.value ?? "").trim();
+    if (!resultsEl || !query) {
+      return;
+    }
+
+    const nonce = ++this.searchNonce;
+    resultsEl.empty();
+    resultsEl.createEl("p", { cls: "setting-item-description", text: "Searching…" });
+
+    try {
+      const results = await searchEmbeddingIndex({
+        query,
+        settings: this.settings,
+        limit: SEARCH_RESULT_LIMIT,
+      });
+      if (nonce !== this.searchNonce) {
+        return;
+      }
+
+      resultsEl.empty();
+      const files = results
+        .map((result) => ({ ...result, file: this.app.vault.getAbstractFileByPath(result.path) }))
+        .filter((result): result is typeof result & { file: TFile } => result.file instanceof TFile);
+      if (!files.length) {
+        resultsEl.createEl("p", {
+          cls: "setting-item-description",
+          text: "No indexed daily notes yet. Update the semantic index first.",
+        });
+        return;
+      }
+
+      for (const { file, score } of files) {
+        const itemEl = resultsEl.createEl("button", {
+          cls: "calendar-semantic-search-result",
+          attr: { type: "button" },
+        });
+        itemEl.createSpan({ cls: "calendar-semantic-search-label", text: file.basename });
+        itemEl.createSpan({ cls: "calendar-semantic-search-score", text: formatSimilarity(score) });
+        itemEl.addEventListener("click", () => {
+          this.close();
+          void this.app.workspace
+            .getLeaf(false)
+            .openFile(file, { active: true })
+            .catch((err) => console.error("[Calendar] Failed to open search result", err));
+        });
+      }
+    } catch (err) {
+      if (nonce !== this.searchNonce) {
+        return;
+      }
+      console.error("[Calendar] Semantic search failed", err);
+      const msg = err instanceof Error ? err.message : String(err);
+      resultsEl.empty();
+      resultsEl.createEl("p", { cls: "mod-warning", text: `Search failed: ${msg}` });
+    }
+  }
+}
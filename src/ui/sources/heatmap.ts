@@ -0,0 +1,114 @@
+import type { TFile, moment } from "obsidian";
+import type { ICalendarSource, IDayMetadata } from "obsidian-calendar-ui";
+import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
+import { get } from "svelte/store";
+
+import type { ISettings } from "src/settings";
+
+import { getCreatedOnDayKey } from "../createdOnDay";
+import { getHeatmapClasses, normalizeHeatmapMetric, parseHeatmapThresholds } from "../heatmap";
+import { getNoteMetrics } from "../noteMetrics";
+import { dailyNotes, settings, weeklyNotes } from "../stores";
+
+// Files created per local day (YYYY-MM-DD), built lazily from ctime and dropped on vault changes.
+let createdFileCounts: Map<string, number> | null = null;
+
+export function invalidateHeatmapCreatedFileCounts(): void {
+  createdFileCounts = null;
+}
+
+function getCreatedFileCounts(): Map<string, number> {
+  if (createdFileCounts) {
+    return createdFileCounts;
+  }
+
+  const counts = new Map<string, number>();
+  const vault = window.app?.vault;
+  const files = vault?.getFiles?.() ?? [];
+  for (const file of files) {
+    const dateStr = getCreatedOnDayKey(file, vault?.configDir);
+    if (!dateStr) {
+      continue;
+    }
+
+    counts.set(dateStr, (counts.get(dateStr) ?? 0) + 1);
+  }
+
+  createdFileCounts = counts;
+  return counts;
+}
+
+function getFrontmatterNumber(note: TFile, key: string): number {
+  if (!key) {
+    return 0;
+  }
+
+  const frontmatter = window.app.metadataCache.getFileCache(note)?.frontmatter;
+  const raw: unknown = frontmatter?.[key];
+  const value = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw) : NaN;
+  return Number.isFinite(value) ? value : 0;
+}
+
+async function getNoteMetricValue(note: TFile | null, options: ISettings): Promise<number> {
+  if (!note) {
+    return 0;
+  }
+
+  switch (normalizeHeatmapMetric(options.heatmapMetric)) {
+    case "wordCount":
+      return (await getNoteMetrics(note)).wordCount;
+    case "openTasks":
+      return (await getNoteMetrics(note)).openTaskCount;
+    case "completedTasks":
+      return (await getNoteMetrics(note)).completedTaskCount;
+    case "frontmatter":
+      return getFrontmatterNumber(note, options.heatmapFrontmatterKey.trim());
+    case "createdFiles":
+      return 0;
+  }
+}
+
+function getCreatedFileCount(start: moment.Moment, days: number): number {
+  const counts = getCreatedFileCounts();
+  let total = 0;
+  for (let i = 0; i < days; i++) {
+    total += counts.get(start.clone().add(i, "days").format("YYYY-MM-DD")) ?? 0;
+  }
+  return total;
+}
+
+async function getHeatmapMetadata(
+  note: TFile | null,
+  date: moment.Moment,
+  granularity: "day" | "week"
+): Promise<IDayMetadata> {
+  const options = get(settings);
+  if (!options.heatmapEnabled) {
+    return { dots: [] };
+  }
+
+  const value =
+    normalizeHeatmapMetric(options.heatmapMetric) === "createdFiles"
+      ? getCreatedFileCount(
+          date.clone().startOf(granularity),
+          granularity === "week" ? 7 : 1
+        )
+      : await getNoteMetricValue(note, options);
+
+  return {
+    classes: getHeatmapClasses(value, parseHeatmapThresholds(options.heatmapThresholds)),
+    dots: [],
+  };
+}
+
+export const heatmapSource: ICalendarSource = {
+  getDailyMetadata: (date: moment.Moment): Promise<IDayMetadata> => {
+    const file = getDailyNote(date, get(dailyNotes));
+    return getHeatmapMetadata(file, date, "day");
+  },
+
+  getWeeklyMetadata: (date: moment.Moment): Promise<IDayMetadata> => {
+    const file = getWeeklyNote(date, get(weeklyNotes));
+    return getHeatmapMetadata(file, date, "week");
+  },
+};
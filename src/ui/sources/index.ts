@@ -1,4 +1,6 @@
-export { streakSource } from "./streak";
-export { customTagsSource } from "./tags";
+export { heatmapSource, invalidateHeatmapCreatedFileCounts } from "./heatmap";
+export { propertyRulesSource } from "./propertyRules";
+export { getStreakStats, streakSource } from "./streak";
+export { customTagsSource, getNoteTags } from "./tags";
 export { tasksSource } from "./tasks";
 export { wordCountSource } from "./wordCount";
@@ -0,0 +1,65 @@
+import type { TFile, moment } from "obsidian";
+import type { ICalendarSource, IDayMetadata, IDot } from "obsidian-calendar-ui";
+import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
+import { get } from "svelte/store";
+
+import {
+  getPropertyRuleColorKey,
+  resolvePropertyRuleEffects,
+  sanitizePropertyRules,
+} from "../propertyRules";
+import { dailyNotes, settings, weeklyNotes } from "../stores";
+
+function getPropertyRuleMetadata(note: TFile | null): IDayMetadata {
+  const rules = sanitizePropertyRules(get(settings).propertyRules);
+  if (!note || !rules.length) {
+    return { dots: [] };
+  }
+
+  // Frontmatter comes from the metadata cache; no file reads here.
+  const frontmatter = window.app.metadataCache.getFileCache(note)?.frontmatter ?? null;
+  const effects = resolvePropertyRuleEffects(rules, frontmatter);
+
+  const classes: string[] = [];
+  const dataAttributes: Record<string, string> = {};
+
+  // Colours are palette keys; styles.css maps each one to its colour.
+  const dots: IDot[] = effects.dotColors.flatMap((color) => {
+    const key = getPropertyRuleColorKey(color);
+    if (!key) {
+      return [];
+    }
+    return [
+      {
+        className: `calendar-property-dot calendar-property-dot-${key}`,
+        color: "default",
+        isFilled: true,
+      },
+    ];
+  });
+
+  const backgroundKey = effects.background ? getPropertyRuleColorKey(effects.background) : null;
+  if (backgroundKey) {
+    classes.push("has-property-background");
+    dataAttributes["data-property-background"] = backgroundKey;
+  }
+
+  if (effects.emoji) {
+    classes.push("has-property-emoji");
+    dataAttributes["data-property-emoji"] = effects.emoji;
+  }
+
+  return { classes, dataAttributes, dots };
+}
+
+export const propertyRulesSource: ICalendarSource = {
+  getDailyMetadata: (date: moment.Moment): Promise<IDayMetadata> => {
+    const file = getDailyNote(date, get(dailyNotes));
+    return Promise.resolve(getPropertyRuleMetadata(file));
+  },
+
+  getWeeklyMetadata: (date: moment.Moment): Promise<IDayMetadata> => {
+    const file = getWeeklyNote(date, get(weeklyNotes));
+    return Promise.resolve(getPropertyRuleMetadata(file));
+  },
+};
@@ -1,9 +1,11 @@
 import type { TFile, moment } from "obsidian";
 import type { ICalendarSource, IDayMetadata } from "obsidian-calendar-ui";
-import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
+import { getDailyNote, getDateFromFile, getWeeklyNote } from "obsidian-daily-notes-interface";
 import { get } from "svelte/store";
 
-import { dailyNotes, weeklyNotes } from "../stores";
+import { getWordCount } from "../noteMetrics";
+import { dailyNotes, settings, weeklyNotes } from "../stores";
+import { computeStreakStats, type StreakStats } from "../streaks";
 import { classList } from "../utils";
 
 const getStreakClasses = (file: TFile): string[] => {
@@ -29,3 +31,38 @@ export const streakSource: ICalendarSource = {
     });
   },
 };
+
+/**
+ * Streak statistics over the indexed daily notes. With `streakMinWords` set, only
+ * notes with at least that many words count towards a streak.
+ */
+export async function getStreakStats(): Promise<StreakStats> {
+  const { streakMinWords = 0 } = get(settings);
+  const files = Object.values(get(dailyNotes) ?? {}).filter(Boolean);
+
+  const dateStrs: string[] = [];
+  const concurrency = 10;
+  for (let i = 0; i < files.length; i += concurrency) {
+    const chunk = files.slice(i, i + concurrency);
+    const results = await Promise.all(
+      chunk.map(async (file) => {
+        const date = getDateFromFile(file, "day");
+        if (!date) {
+          return null;
+        }
+        if (streakMinWords > 0 && (await getWordCount(file)) < streakMinWords) {
+          return null;
+        }
+        return date.format("YYYY-MM-DD");
+      })
+    );
+
+    for (const dateStr of results) {
+      if (dateStr) {
+        dateStrs.push(dateStr);
+      }
+    }
+  }
+
+  return computeStreakStats(dateStrs, window.moment().format("YYYY-MM-DD"));
+}
@@ -5,25 +5,47 @@ import { get } from "svelte/store";
 
 import { partition } from "src/ui/utils";
 
-import { dailyNotes, weeklyNotes } from "../stores";
+import { dailyNotes, settings, weeklyNotes } from "../stores";
+import { expandNestedTags } from "../tagUtils";
 
-function getNoteTags(note: TFile | null): string[] {
+export type NoteTagOptions = {
+  frontmatter: boolean;
+  body: boolean;
+};
+
+/**
+ * Tags of a note without the leading `#`, including ancestors of nested tags
+ * (`project/alpha` also yields `project`). Read from the metadata cache only.
+ */
+export function getNoteTags(
+  note: TFile | null,
+  options: NoteTagOptions = getNoteTagOptions()
+): string[] {
   if (!note) {
     return [];
   }
 
   const { metadataCache } = window.app;
-  const frontmatter = metadataCache.getFileCache(note)?.frontmatter;
+  const cache = metadataCache.getFileCache(note);
 
-  const tags = [];
+  const tags: string[] = [];
 
-  if (frontmatter) {
-    const frontmatterTags = parseFrontMatterTags(frontmatter) || [];
+  if (options.frontmatter && cache?.frontmatter) {
+    const frontmatterTags = parseFrontMatterTags(cache.frontmatter) || [];
     tags.push(...frontmatterTags);
   }
 
-  // strip the '#' at the beginning
-  return tags.map((tag) => tag.substring(1));
+  if (options.body && cache?.tags) {
+    tags.push(...cache.tags.map((t) => t.tag));
+  }
+
+  // strips the '#' at the beginning
+  return expandNestedTags(tags);
+}
+
+export function getNoteTagOptions(): NoteTagOptions {
+  const { tagsIncludeFrontmatter = true, tagsIncludeBody = true } = get(settings);
+  return { frontmatter: tagsIncludeFrontmatter, body: tagsIncludeBody };
 }
 
 function getFormattedTagAttributes(note: TFile | null): Record<string, string> {
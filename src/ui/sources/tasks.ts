@@ -3,8 +3,14 @@ import type { ICalendarSource, IDayMetadata, IDot } from "obsidian-calendar-ui";
 import { getDailyNote, getWeeklyNote } from "obsidian-daily-notes-interface";
 import { get } from "svelte/store";
 
-import { getOpenTaskCount } from "../noteMetrics";
-import { dailyNotes, weeklyNotes } from "../stores";
+import { getOpenTaskCount, getTaskCounts } from "../noteMetrics";
+import { dailyNotes, settings, weeklyNotes } from "../stores";
+import { getTaskProgress, getTaskTotal } from "../taskCounts";
+
+export type TaskIndicatorStyle = "dot" | "ring" | "fraction";
+
+// The ring is drawn in eighths (see `.task-progress-N` in styles.css).
+const RING_STEPS = 8;
 
 export async function getNumberOfRemainingTasks(note: TFile): Promise<number> {
   if (!note) {
@@ -33,21 +39,54 @@ export async function getDotsForDailyNote(
   return dots;
 }
 
-export const tasksSource: ICalendarSource = {
-  getDailyMetadata: async (date: moment.Moment): Promise<IDayMetadata> => {
-    const file = getDailyNote(date, get(dailyNotes));
-    const dots = await getDotsForDailyNote(file);
+async function getTaskMetadata(note: TFile | null): Promise<IDayMetadata> {
+  const style = get(settings).taskIndicator ?? "dot";
+  if (!note) {
+    return { dots: [] };
+  }
+
+  if (style === "dot") {
+    return { dots: await getDotsForDailyNote(note) };
+  }
+
+  const counts = await getTaskCounts(note);
+  const progress = getTaskProgress(counts);
+  if (progress === null) {
+    return { dots: [] };
+  }
+
+  const total = getTaskTotal(counts);
+  const done = counts.completed + counts.cancelled;
+  const dataAttributes = { "data-task-progress": `${done}/${total}` };
+
+  if (style === "fraction") {
     return {
-      dots,
+      classes: ["has-task-fraction", ...(done === total ? ["is-tasks-done"] : [])],
+      dataAttributes,
+      dots: [],
     };
+  }
+
+  return {
+    dataAttributes,
+    dots: [
+      {
+        className: `task task-progress task-progress-${Math.round(progress * RING_STEPS)}`,
+        color: "default",
+        isFilled: false,
+      },
+    ],
+  };
+}
+
+export const tasksSource: ICalendarSource = {
+  getDailyMetadata: (date: moment.Moment): Promise<IDayMetadata> => {
+    const file = getDailyNote(date, get(dailyNotes));
+    return getTaskMetadata(file);
   },
 
-  getWeeklyMetadata: async (date: moment.Moment): Promise<IDayMetadata> => {
+  getWeeklyMetadata: (date: moment.Moment): Promise<IDayMetadata> => {
     const file = getWeeklyNote(date, get(weeklyNotes));
-    const dots = await getDotsForDailyNote(file);
-
-    return {
-      dots,
-    };
+    return getTaskMetadata(file);
   },
 };
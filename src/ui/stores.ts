@@ -5,11 +5,15 @@ import {
   getDateFromFile,
   getDateUID,
 } from "obsidian-daily-notes-interface";
-import { writable } from "svelte/store";
+import { get, writable } from "svelte/store";
 
 import type { CustomListTitles } from "src/customListTitles";
+import { getAllPeriodicNotes } from "src/io/periodicNotes";
+import type { PeriodicNoteGranularity } from "src/io/periodicNotes";
 import type { ListItemColorTags } from "src/listItemColorTags";
+import type { AutoTitleBudget } from "src/ollama/autoTitles";
 import type { OllamaTitleCache } from "src/ollama/cache";
+import type { EmbeddingIndex } from "src/ollama/embeddings";
 import { defaultSettings, type ISettings } from "src/settings";
 
 function createDailyNotesStore() {
@@ -86,11 +90,38 @@ function createWeeklyNotesStore() {
   };
 }
 
+function createPeriodicNotesStore(granularity: PeriodicNoteGranularity) {
+  let hasError = false;
+
+  const store = writable<Record<string, TFile>>({});
+  return {
+    reindex: () => {
+      try {
+        store.set(getAllPeriodicNotes(granularity, get(settings)));
+        hasError = false;
+      } catch (err) {
+        if (!hasError) {
+          // Avoid error being shown multiple times
+          console.warn(`[Calendar] Failed to find ${granularity} notes folder`, err);
+        }
+        store.set({});
+        hasError = true;
+      }
+    },
+    ...store,
+  };
+}
+
 export const settings = writable<ISettings>(defaultSettings);
 export const dailyNotes = createDailyNotesStore();
 export const weeklyNotes = createWeeklyNotesStore();
+export const monthlyNotes = createPeriodicNotesStore("month");
+export const quarterlyNotes = createPeriodicNotesStore("quarter");
+export const yearlyNotes = createPeriodicNotesStore("year");
 
 export const ollamaTitleCache = writable<OllamaTitleCache>({});
+export const autoTitleBudget = writable<AutoTitleBudget>({ day: "", used: 0 });
+export const embeddingIndex = writable<EmbeddingIndex>({});
 export const customListTitles = writable<CustomListTitles>({});
 export const listItemColorTags = writable<ListItemColorTags>({});
 
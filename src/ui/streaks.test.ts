@@ -0,0 +1,78 @@
+import { computeStreakStats, formatStreakStatsMarkdown } from "./streaks";
+
+describe("ui/streaks", () => {
+  describe("computeStreakStats", () => {
+    test("returns empty stats without notes", () => {
+      const stats = computeStreakStats([], "2025-03-10");
+      expect(stats.totalDays).toBe(0);
+      expect(stats.currentStreak).toBe(0);
+      expect(stats.longestStreak).toBeNull();
+      expect(stats.monthly).toEqual([]);
+    });
+
+    test("computes current and longest streaks", () => {
+      const stats = computeStreakStats(
+        ["2025-03-01", "2025-03-02", "2025-03-03", "2025-03-07", "2025-03-08", "2025-03-09"],
+        "2025-03-09"
+      );
+
+      expect(stats.totalDays).toBe(6);
+      expect(stats.currentStreak).toBe(3);
+      expect(stats.longestStreak).toEqual({ start: "2025-03-01", end: "2025-03-03", length: 3 });
+    });
+
+    test("keeps the current streak alive while today's note is unwritten", () => {
+      const stats = computeStreakStats(["2025-03-08", "2025-03-09"], "2025-03-10");
+      expect(stats.currentStreak).toBe(2);
+
+      const broken = computeStreakStats(["2025-03-08"], "2025-03-10");
+      expect(broken.currentStreak).toBe(0);
+    });
+
+    test("ignores invalid and future dates, and duplicates", () => {
+      const stats = computeStreakStats(
+        ["2025-03-01", "2025-03-01", "2025-02-30", "not-a-date", "2025-04-01"],
+        "2025-03-01"
+      );
+      expect(stats.totalDays).toBe(1);
+      expect(stats.currentStreak).toBe(1);
+    });
+
+    test("reports gaps between notes and up to yesterday", () => {
+      const stats = computeStreakStats(["2025-03-01", "2025-03-04"], "2025-03-07");
+
+      expect(stats.gaps).toEqual([
+        { start: "2025-03-02", end: "2025-03-03", length: 2 },
+        { start: "2025-03-05", end: "2025-03-06", length: 2 },
+      ]);
+      expect(stats.gapDays).toBe(4);
+    });
+
+    test("computes completion per month and year across boundaries", () => {
+      const stats = computeStreakStats(
+        ["2024-12-30", "2024-12-31", "2025-01-01"],
+        "2025-01-02"
+      );
+
+      expect(stats.monthly).toEqual([
+        { period: "2024-12", days: 2, total: 2, rate: 1 },
+        { period: "2025-01", days: 1, total: 2, rate: 0.5 },
+      ]);
+      expect(stats.yearly.map((y) => [y.period, y.days, y.total])).toEqual([
+        ["2024", 2, 2],
+        ["2025", 1, 2],
+      ]);
+    });
+  });
+
+  test("formatStreakStatsMarkdown renders a summary with tables", () => {
+    const stats = computeStreakStats(["2025-03-01", "2025-03-02"], "2025-03-02");
+    const md = formatStreakStatsMarkdown(stats, { minWords: 100 });
+
+    expect(md).toContain("## Daily note streaks");
+    expect(md).toContain("at least 100 words");
+    expect(md).toContain("- Current streak: 2 days");
+    expect(md).toContain("- Longest streak: 2 days (2025-03-01 → 2025-03-02)");
+    expect(md).toContain("| 2025-03 | 2/2 | 100% |");
+  });
+});
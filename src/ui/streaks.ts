@@ -0,0 +1,220 @@
+export type DayRange = {
+  // YYYY-MM-DD, inclusive
+  start: string;
+  end: string;
+  length: number;
+};
+
+export type PeriodCompletion = {
+  // YYYY-MM for months, YYYY for years
+  period: string;
+  // Days in the period with a qualifying note
+  days: number;
+  // Days in the period that count (clipped to first note → today)
+  total: number;
+  // days / total, 0..1
+  rate: number;
+};
+
+export type StreakStats = {
+  totalDays: number;
+  // Consecutive days ending today (or yesterday, while today's note is still unwritten)
+  currentStreak: number;
+  longestStreak: DayRange | null;
+  // Stretches without a note between the first note and yesterday
+  gaps: DayRange[];
+  gapDays: number;
+  monthly: PeriodCompletion[];
+  yearly: PeriodCompletion[];
+};
+
+const DAY_MS = 86400000;
+
+const pad2 = (n: number): string => String(n).padStart(2, "0");
+
+function toDayNumber(dateStr: string): number | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateStr);
+  if (!m) {
+    return null;
+  }
+
+  const y = Number(m[1]);
+  const mo = Number(m[2]);
+  const d = Number(m[3]);
+  const dt = new Date(Date.UTC(y, mo - 1, d));
+  if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== mo - 1 || dt.getUTCDate() !== d) {
+    return null;
+  }
+
+  return Math.round(dt.getTime() / DAY_MS);
+}
+
+function fromDayNumber(day: number): string {
+  const dt = new Date(day * DAY_MS);
+  return `${dt.getUTCFullYear()}-${pad2(dt.getUTCMonth() + 1)}-${pad2(dt.getUTCDate())}`;
+}
+
+function toRange(start: number, end: number): DayRange {
+  return { start: fromDayNumber(start), end: fromDayNumber(end), length: end - start + 1 };
+}
+
+function toCompletions(
+  days: Map<string, number>,
+  totals: Map<string, number>
+): PeriodCompletion[] {
+  return Array.from(totals.entries())
+    .map(([period, total]) => {
+      const count = days.get(period) ?? 0;
+      return { period, days: count, total, rate: total > 0 ? count / total : 0 };
+    })
+    .sort((a, b) => a.period.localeCompare(b.period));
+}
+
+/**
+ * Compute streak statistics from the days that have a (qualifying) daily note.
+ *
+ * Dates are `YYYY-MM-DD` strings; invalid entries and days after `todayStr` are
+ * ignored. Pure (no moment/Obsidian) so it can be unit tested directly.
+ */
+export function computeStreakStats(dateStrs: string[], todayStr: string): StreakStats {
+  const empty: StreakStats = {
+    totalDays: 0,
+    currentStreak: 0,
+    longestStreak: null,
+    gaps: [],
+    gapDays: 0,
+    monthly: [],
+    yearly: [],
+  };
+
+  const today = toDayNumber(todayStr);
+  if (today === null) {
+    return empty;
+  }
+
+  const days = Array.from(
+    new Set(
+      dateStrs
+        .map((s) => toDayNumber(s))
+        .filter((d): d is number => d !== null && d <= today)
+    )
+  ).sort((a, b) => a - b);
+
+  if (!days.length) {
+    return empty;
+  }
+
+  // Longest streak + gaps between consecutive notes.
+  let longest: DayRange = toRange(days[0], days[0]);
+  const gaps: DayRange[] = [];
+  let runStart = days[0];
+
+  for (let i = 1; i <= days.length; i++) {
+    const prev = days[i - 1];
+    const cur = days[i];
+
+    if (cur === prev + 1) {
+      continue;
+    }
+
+    if (prev - runStart + 1 > longest.length) {
+      longest = toRange(runStart, prev);
+    }
+
+    if (cur !== undefined) {
+      gaps.push(toRange(prev + 1, cur - 1));
+      runStart = cur;
+    }
+  }
+
+  // Trailing gap up to yesterday (today is still "open").
+  const last = days[days.length - 1];
+  if (last < today - 1) {
+    gaps.push(toRange(last + 1, today - 1));
+  }
+
+  // Current streak.
+  const daySet = new Set(days);
+  let currentStreak = 0;
+  let cursor = daySet.has(today) ? today : today - 1;
+  while (daySet.has(cursor)) {
+    currentStreak++;
+    cursor--;
+  }
+
+  // Completion per month/year over first note → today.
+  const monthDays = new Map<string, number>();
+  const monthTotals = new Map<string, number>();
+  const yearDays = new Map<string, number>();
+  const yearTotals = new Map<string, number>();
+
+  for (let d = days[0]; d <= today; d++) {
+    const dateStr = fromDayNumber(d);
+    const month = dateStr.slice(0, 7);
+    const year = dateStr.slice(0, 4);
+
+    monthTotals.set(month, (monthTotals.get(month) ?? 0) + 1);
+    yearTotals.set(year, (yearTotals.get(year) ?? 0) + 1);
+
+    if (daySet.has(d)) {
+      monthDays.set(month, (monthDays.get(month) ?? 0) + 1);
+      yearDays.set(year, (yearDays.get(year) ?? 0) + 1);
+    }
+  }
+
+  return {
+    totalDays: days.length,
+    currentStreak,
+    longestStreak: longest,
+    gaps,
+    gapDays: gaps.reduce((sum, gap) => sum + gap.length, 0),
+    monthly: toCompletions(monthDays, monthTotals),
+    yearly: toCompletions(yearDays, yearTotals),
+  };
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Markdown summary used by the "Insert streak statistics" command.
+ */
+export function formatStreakStatsMarkdown(
+  stats: StreakStats,
+  options: { minWords?: number; maxMonths?: number } = {}
+): string {
+  const { minWords = 0, maxMonths = 12 } = options;
+  const plural = (n: number) => `${n} ${n === 1 ? "day" : "days"}`;
+
+  const lines: string[] = ["## Daily note streaks", ""];
+  if (minWords > 0) {
+    lines.push(`_Counting daily notes with at least ${minWords} words._`, "");
+  }
+
+  lines.push(`- Current streak: ${plural(stats.currentStreak)}`);
+  if (stats.longestStreak) {
+    const { start, end, length } = stats.longestStreak;
+    lines.push(`- Longest streak: ${plural(length)} (${start} → ${end})`);
+  } else {
+    lines.push("- Longest streak: 0 days");
+  }
+  lines.push(`- Days written: ${stats.totalDays}`);
+  lines.push(`- Gap days: ${stats.gapDays}`);
+
+  if (stats.yearly.length) {
+    lines.push("", "### By year", "", "| Year | Days | Completion |", "| --- | --- | --- |");
+    for (const y of stats.yearly) {
+      lines.push(`| ${y.period} | ${y.days}/${y.total} | ${formatRate(y.rate)} |`);
+    }
+  }
+
+  if (stats.monthly.length) {
+    lines.push("", "### By month", "", "| Month | Days | Completion |", "| --- | --- | --- |");
+    for (const m of stats.monthly.slice(-maxMonths)) {
+      lines.push(`| ${m.period} | ${m.days}/${m.total} | ${formatRate(m.rate)} |`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,29 @@
+import { expandNestedTags, normalizeTag, parseTagList, tagMatches } from "./tagUtils";
+
+describe("ui/tagUtils", () => {
+  test("normalizeTag strips # and slashes and lowercases", () => {
+    expect(normalizeTag("#Project/Alpha/")).toBe("project/alpha");
+    expect(normalizeTag("  ")).toBe("");
+  });
+
+  test("expandNestedTags adds ancestors once", () => {
+    expect(expandNestedTags(["#project/alpha/v2", "Project", "#health"])).toEqual([
+      "project",
+      "project/alpha",
+      "project/alpha/v2",
+      "health",
+    ]);
+  });
+
+  test("parseTagList splits on commas and whitespace", () => {
+    expect(parseTagList("#work, project/alpha  WORK")).toEqual(["work", "project/alpha"]);
+  });
+
+  test("tagMatches matches nested tags under a parent only", () => {
+    expect(tagMatches(["project/alpha"], "#project")).toBe(true);
+    expect(tagMatches(["Project/Alpha"], "project/alpha")).toBe(true);
+    expect(tagMatches(["project"], "project/alpha")).toBe(false);
+    expect(tagMatches(["projects"], "project")).toBe(false);
+    expect(tagMatches(["project"], "")).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Normalize a tag for comparison: no leading `#`, no surrounding slashes,
+ * lowercase (Obsidian treats tags case-insensitively).
+ */
+export function normalizeTag(tag: string): string {
+  return (tag ?? "")
+    .trim()
+    .replace(/^#+/, "")
+    .replace(/^\/+|\/+$/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Add the ancestors of nested tags, so `project/alpha` also yields `project`.
+ * Keeps the original casing of the first occurrence; de-duplicates case-insensitively.
+ */
+export function expandNestedTags(tags: string[]): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+
+  const add = (tag: string) => {
+    const key = tag.toLowerCase();
+    if (tag && !seen.has(key)) {
+      seen.add(key);
+      out.push(tag);
+    }
+  };
+
+  for (const raw of tags) {
+    const tag = (raw ?? "").trim().replace(/^#+/, "").replace(/^\/+|\/+$/g, "");
+    if (!tag) {
+      continue;
+    }
+
+    const parts = tag.split("/").filter(Boolean);
+    for (let i = 1; i < parts.length; i++) {
+      add(parts.slice(0, i).join("/"));
+    }
+    add(parts.join("/"));
+  }
+
+  return out;
+}
+
+/**
+ * Parse user input like "#work, project/alpha  health" into normalized tags.
+ */
+export function parseTagList(input: string): string[] {
+  return Array.from(
+    new Set(
+      (input ?? "")
+        .split(/[\s,]+/)
+        .map(normalizeTag)
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Whether a note tagged with `noteTags` matches the `filter` tag. A parent tag
+ * matches its nested tags (`project` matches `project/alpha`), not the reverse.
+ */
+export function tagMatches(noteTags: string[], filter: string): boolean {
+  const wanted = normalizeTag(filter);
+  if (!wanted) {
+    return false;
+  }
+
+  return noteTags.some((tag) => {
+    const t = normalizeTag(tag);
+    return t === wanted || t.startsWith(`${wanted}/`);
+  });
+}
@@ -0,0 +1,70 @@
+import { countTasks, getTaskProgress, getTaskTotal } from "./taskCounts";
+
+describe("ui/taskCounts", () => {
+  describe("countTasks", () => {
+    test("counts each status", () => {
+      const text = [
+        "- [ ] open",
+        "- [x] done",
+        "- [X] done too",
+        "- [-] cancelled",
+        "- [/] in progress",
+        "- [>] migrated (ignored)",
+        "- not a task",
+      ].join("\n");
+
+      expect(countTasks(text)).toEqual({
+        open: 1,
+        completed: 2,
+        cancelled: 1,
+        inProgress: 1,
+      });
+    });
+
+    test("supports numbered lists, other bullets, nesting and blockquotes", () => {
+      const text = [
+        "1. [ ] first",
+        "2) [x] second",
+        "* [ ] star",
+        "+ [x] plus",
+        "    - [ ] nested",
+        "\t\t- [-] tab nested",
+        "> - [/] quoted",
+      ].join("\n");
+
+      expect(countTasks(text)).toEqual({
+        open: 3,
+        completed: 2,
+        cancelled: 1,
+        inProgress: 1,
+      });
+    });
+
+    test("ignores tasks inside fenced code blocks and mid-line checkboxes", () => {
+      const text = [
+        "```md",
+        "- [ ] example",
+        "```",
+        "text - [ ] inline",
+        "~~~",
+        "- [x] example",
+        "~~~",
+        "- [ ] real",
+      ].join("\n");
+
+      expect(countTasks(text)).toEqual({
+        open: 1,
+        completed: 0,
+        cancelled: 0,
+        inProgress: 0,
+      });
+    });
+  });
+
+  test("getTaskProgress treats completed and cancelled as done", () => {
+    const counts = { open: 1, completed: 2, cancelled: 1, inProgress: 0 };
+    expect(getTaskTotal(counts)).toBe(4);
+    expect(getTaskProgress(counts)).toBe(0.75);
+    expect(getTaskProgress({ open: 0, completed: 0, cancelled: 0, inProgress: 0 })).toBeNull();
+  });
+});
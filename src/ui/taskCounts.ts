@@ -0,0 +1,81 @@
+export type TaskCounts = {
+  // `- [ ]`
+  open: number;
+  // `- [x]` / `- [X]`
+  completed: number;
+  // `- [-]`
+  cancelled: number;
+  // `- [/]`
+  inProgress: number;
+};
+
+// Bullet (`-`, `*`, `+`) or numbered (`1.` / `1)`) list item, at any indentation
+// (including inside blockquotes), followed by a single-character checkbox.
+const TASK_LINE_PATTERN = /^[\s>]*(?:[-*+]|\d+[.)])\s+\[(.)\]/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+export function emptyTaskCounts(): TaskCounts {
+  return { open: 0, completed: 0, cancelled: 0, inProgress: 0 };
+}
+
+/**
+ * Count checklist items by status. Lines inside fenced code blocks are skipped;
+ * other custom statuses (e.g. `[>]`, `[!]`) are ignored.
+ */
+export function countTasks(text: string): TaskCounts {
+  const counts = emptyTaskCounts();
+  let fence: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const fenceMatch = FENCE_PATTERN.exec(line);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) {
+      continue;
+    }
+
+    const m = TASK_LINE_PATTERN.exec(line);
+    if (!m) {
+      continue;
+    }
+
+    switch (m[1]) {
+      case " ":
+        counts.open++;
+        break;
+      case "x":
+      case "X":
+        counts.completed++;
+        break;
+      case "-":
+        counts.cancelled++;
+        break;
+      case "/":
+        counts.inProgress++;
+        break;
+    }
+  }
+
+  return counts;
+}
+
+export function getTaskTotal(counts: TaskCounts): number {
+  return counts.open + counts.completed + counts.cancelled + counts.inProgress;
+}
+
+/**
+ * Share of tasks that are done (completed or cancelled), 0..1. Null without tasks.
+ */
+export function getTaskProgress(counts: TaskCounts): number | null {
+  const total = getTaskTotal(counts);
+  if (!total) {
+    return null;
+  }
+  return (counts.completed + counts.cancelled) / total;
+}
@@ -7,35 +7,53 @@ import {
   getWeeklyNote,
   getWeeklyNoteSettings,
 } from "obsidian-daily-notes-interface";
-import { FileView, TFile, ItemView } from "obsidian";
+import { FileView, TFile, ItemView, Notice } from "obsidian";
 import type { Events, TAbstractFile, WorkspaceLeaf } from "obsidian";
 import { mount, unmount, type ComponentProps } from "svelte";
 import { get } from "svelte/store";
 
 import { TRIGGER_ON_OPEN, VIEW_TYPE_CALENDAR } from "src/constants";
 import { tryToCreateDailyNote } from "src/io/dailyNotes";
+import type { ListExportSource } from "src/io/listExport";
+import {
+  getDateFromPeriodicNote,
+  getPeriodicNote,
+  tryToCreatePeriodicNote,
+} from "src/io/periodicNotes";
+import type { PeriodicNoteGranularity } from "src/io/periodicNotes";
 import { tryToCreateWeeklyNote } from "src/io/weeklyNotes";
+import { AutoTitleScheduler } from "src/ollama/autoTitles";
 import type { ISettings } from "src/settings";
 
 import Calendar from "./ui/Calendar.svelte";
 import { showFileMenu } from "./ui/fileMenu";
+import { ListExportModal } from "./ui/listExportModal";
+import { DailyNoteSearchIndex } from "./ui/search";
 
 type CalendarProps = ComponentProps<typeof Calendar>;
 
 type CalendarExports = {
   tick: () => void;
   requestListRefresh?: () => void;
+  queueAutoTitles?: (files: TFile[]) => Promise<void>;
   setDisplayedMonth?: (month: moment.Moment) => void;
+  getListExportSource?: () => ListExportSource | null;
 };
 import {
   activeFile,
   activeFilePath,
   dailyNotes,
+  monthlyNotes,
+  quarterlyNotes,
   weeklyNotes,
   settings,
+  yearlyNotes,
 } from "./ui/stores";
 import {
   customTagsSource,
+  heatmapSource,
+  invalidateHeatmapCreatedFileCounts,
+  propertyRulesSource,
   streakSource,
   tasksSource,
   wordCountSource,
@@ -43,6 +61,12 @@ import {
 
 type Moment = moment.Moment;
 
+const periodicNoteStores = {
+  month: monthlyNotes,
+  quarter: quarterlyNotes,
+  year: yearlyNotes,
+};
+
 function isPerfDebugEnabled(): boolean {
   try {
     return window.localStorage?.getItem("calendar-debug-perf") === "1";
@@ -87,6 +111,8 @@ function instrumentSourcesForPerf(sources: ICalendarSource[]): ICalendarSource[]
 
   const knownNames = new Map<ICalendarSource, string>([
     [customTagsSource, "tags"],
+    [heatmapSource, "heatmap"],
+    [propertyRulesSource, "propertyRules"],
     [streakSource, "streak"],
     [wordCountSource, "wordCount"],
     [tasksSource, "tasks"],
@@ -192,6 +218,22 @@ export default class CalendarView extends ItemView {
 
   private isMetaPressed = false;
 
+  // Full-text index for List view search; kept in sync by the modify/delete handlers.
+  private searchIndex = new DailyNoteSearchIndex<TFile>((file) =>
+    this.app.vault.cachedRead(file)
+  );
+
+  // Idle timers for automatic titles, restarted by the modify handler.
+  private autoTitles = new AutoTitleScheduler({
+    idleMs: () => Math.max(1, this.settings.autoTitleIdleMinutes ?? 10) * 60 * 1000,
+    onIdle: (path) => {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        void this.calendar?.queueAutoTitles?.([file]);
+      }
+    },
+  });
+
   private static readonly CALENDAR_REFRESH_DEBOUNCE_MS = 200;
 
   constructor(leaf: WorkspaceLeaf) {
@@ -226,11 +268,19 @@ export default class CalendarView extends ItemView {
     this.registerEvent(
       this.app.workspace.on("file-open", (file) => this.onFileOpen(file))
     );
+    // Tag and property-rule metadata come from the metadata cache, which can settle after `modify`.
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => this.onMetadataChanged(file))
+    );
 
     this.register(
       settings.subscribe((val) => {
         this.settings = val;
 
+        if (!this.isAutoTitlesEnabled()) {
+          this.autoTitles.clear();
+        }
+
         // Refresh the calendar if settings change.
         this.scheduleCalendarTick();
       })
@@ -263,6 +313,9 @@ export default class CalendarView extends ItemView {
       await unmount(this.calendar);
       this.calendar = null;
     }
+
+    this.searchIndex.clear();
+    this.autoTitles.clear();
   }
 
   protected onOpen(): Promise<void> {
@@ -271,6 +324,8 @@ export default class CalendarView extends ItemView {
     const sources: ICalendarSource[] = [
       customTagsSource,
       streakSource,
+      heatmapSource,
+      propertyRulesSource,
       wordCountSource,
       tasksSource,
     ];
@@ -285,6 +340,12 @@ export default class CalendarView extends ItemView {
           this.openOrCreateDailyNote(date, isMetaPressed),
         onClickWeek: (date: Moment, isMetaPressed: boolean) =>
           this.openOrCreateWeeklyNote(date, isMetaPressed),
+        onClickMonth: (date: Moment, isMetaPressed: boolean) =>
+          this.openOrCreatePeriodicNote("month", date, isMetaPressed),
+        onClickQuarter: (date: Moment, isMetaPressed: boolean) =>
+          this.openOrCreatePeriodicNote("quarter", date, isMetaPressed),
+        onClickYear: (date: Moment, isMetaPressed: boolean) =>
+          this.openOrCreatePeriodicNote("year", date, isMetaPressed),
         onHoverDay: (date: Moment, targetEl: EventTarget) =>
           this.onHoverDay(date, targetEl),
         onHoverWeek: (date: Moment, targetEl: EventTarget) =>
@@ -294,6 +355,7 @@ export default class CalendarView extends ItemView {
         onContextMenuWeek: (date: Moment, event: MouseEvent) =>
           this.onContextMenuWeek(date, event),
         sources: instrumentedSources,
+        searchIndex: this.searchIndex,
       },
     });
 
@@ -359,6 +421,7 @@ export default class CalendarView extends ItemView {
   private onNoteSettingsUpdate(): void {
     dailyNotes.reindex();
     weeklyNotes.reindex();
+    this.reindexPeriodicNotes();
     this.updateActiveFile();
     this.scheduleCalendarTick();
   }
@@ -369,6 +432,8 @@ export default class CalendarView extends ItemView {
     }
 
     if (getDateFromFile(file, "day")) {
+      this.searchIndex.invalidate(file.path);
+      this.autoTitles.cancel(file.path);
       dailyNotes.reindex();
       this.updateActiveFile();
       this.scheduleCalendarTick();
@@ -378,10 +443,27 @@ export default class CalendarView extends ItemView {
       this.updateActiveFile();
       this.scheduleCalendarTick();
     }
+    this.reindexPeriodicNotes(file);
+    this.onCreatedFilesChanged();
 
     return Promise.resolve();
   }
 
+  /**
+   * Reindex monthly/quarterly/yearly notes. When a file is given, only the
+   * granularities whose format matches that file are reindexed.
+   */
+  private reindexPeriodicNotes(file?: TFile): void {
+    for (const [granularity, store] of Object.entries(periodicNoteStores)) {
+      if (
+        !file ||
+        getDateFromPeriodicNote(file, granularity as PeriodicNoteGranularity, this.settings)
+      ) {
+        store.reindex();
+      }
+    }
+  }
+
   private onFileModified(file: TAbstractFile): Promise<void> {
     if (!(file instanceof TFile)) {
       return Promise.resolve();
@@ -394,15 +476,37 @@ export default class CalendarView extends ItemView {
       this.scheduleCalendarTick();
     }
 
-    // List view filtering depends on file contents (word count), so refresh it
+    // List view filtering and search depend on file contents, so refresh them
     // when a daily note changes.
     if (dailyDate) {
+      this.searchIndex.invalidate(file.path);
       this.scheduleListRefresh();
+
+      if (this.isAutoTitlesEnabled()) {
+        this.autoTitles.touch(file.path);
+      }
     }
 
     return Promise.resolve();
   }
 
+  private isAutoTitlesEnabled(): boolean {
+    return !!this.settings.ollamaTitlesEnabled && !!this.settings.autoTitlesEnabled;
+  }
+
+  private onMetadataChanged(file: TFile): void {
+    const dailyDate = getDateFromFile(file, "day");
+    if (dailyDate || getDateFromFile(file, "week")) {
+      this.scheduleCalendarTick();
+    }
+
+    // List filters read tags and frontmatter from the metadata cache, which
+    // settles after the modify event.
+    if (dailyDate) {
+      this.scheduleListRefresh();
+    }
+  }
+
   private onFileCreated(file: TAbstractFile): void {
     if (!(file instanceof TFile)) {
       return;
@@ -417,6 +521,18 @@ export default class CalendarView extends ItemView {
         weeklyNotes.reindex();
         this.scheduleCalendarTick();
       }
+      this.reindexPeriodicNotes(file);
+      this.onCreatedFilesChanged();
+    }
+  }
+
+  /**
+   * The heatmap can count files created per day, which any file create/delete affects.
+   */
+  private onCreatedFilesChanged(): void {
+    invalidateHeatmapCreatedFileCounts();
+    if (this.settings.heatmapEnabled && this.settings.heatmapMetric === "createdFiles") {
+      this.scheduleCalendarTick();
     }
   }
 
@@ -472,6 +588,20 @@ export default class CalendarView extends ItemView {
     }, CalendarView.CALENDAR_REFRESH_DEBOUNCE_MS);
   }
 
+  public exportList(): void {
+    const source = this.calendar?.getListExportSource?.();
+    if (!source) {
+      new Notice("Open the list view to export it.");
+      return;
+    }
+    if (!source.groups.length) {
+      new Notice("The list view is empty, nothing to export.");
+      return;
+    }
+
+    new ListExportModal(this.app, source).open();
+  }
+
   public revealActiveNote(): void {
     const { moment } = window;
 
@@ -535,6 +665,55 @@ export default class CalendarView extends ItemView {
     workspace.setActiveLeaf(leaf, { focus: true });
   }
 
+  openOrCreatePeriodicNote(
+    granularity: PeriodicNoteGranularity,
+    date: Moment,
+    inNewSplit: boolean
+  ): void {
+    void this.openOrCreatePeriodicNoteAsync(granularity, date, inNewSplit).catch((err) =>
+      console.error(`[Calendar] Failed to open or create ${granularity} note`, err)
+    );
+  }
+
+  private async openOrCreatePeriodicNoteAsync(
+    granularity: PeriodicNoteGranularity,
+    date: Moment,
+    inNewSplit: boolean
+  ): Promise<void> {
+    const { workspace } = this.app;
+
+    const startOfPeriod = date.clone().startOf(granularity);
+    const existingFile = getPeriodicNote(
+      date,
+      granularity,
+      get(periodicNoteStores[granularity])
+    );
+
+    if (!existingFile) {
+      // File doesn't exist
+      await tryToCreatePeriodicNote(
+        granularity,
+        startOfPeriod,
+        inNewSplit,
+        this.settings,
+        (file) => {
+          activeFile.setFile(file);
+          activeFilePath.setFile(file);
+          periodicNoteStores[granularity].reindex();
+        }
+      );
+      return;
+    }
+
+    const leaf = inNewSplit
+      ? workspace.getLeaf(true)
+      : workspace.getLeaf(false);
+    await leaf.openFile(existingFile, { active: true });
+
+    activeFile.setFile(existingFile);
+    activeFilePath.setFile(existingFile);
+  }
+
   openOrCreateDailyNote(date: Moment, inNewSplit: boolean): void {
     void this.openOrCreateDailyNoteAsync(date, inNewSplit).catch((err) =>
       console.error("[Calendar] Failed to open or create daily note", err)
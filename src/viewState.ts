@@ -1,3 +1,6 @@
+import { defaultListFilters, sanitizeListFilters } from "src/ui/listFilters";
+import type { ListFilters } from "src/ui/listFilters";
+
 export type CalendarViewState = {
   /** Whether the list view pane is visible */
   showList: boolean;
@@ -25,6 +28,9 @@ export type CalendarViewState = {
    * NOTE: This map is expected to only include entries with at least one true child flag.
    */
   dayChildOpenState: Record<string, { files?: boolean }>;
+
+  /** Active List view filters */
+  listFilters: ListFilters;
 };
 
 export const defaultViewState: CalendarViewState = {
@@ -33,6 +39,7 @@ export const defaultViewState: CalendarViewState = {
   groupOpenState: {},
   dayOpenState: {},
   dayChildOpenState: {},
+  listFilters: defaultListFilters,
 };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -71,6 +78,7 @@ export function sanitizeCalendarViewState(raw: unknown): CalendarViewState {
       groupOpenState: {},
       dayOpenState: {},
       dayChildOpenState: {},
+      listFilters: sanitizeListFilters(null),
     };
   }
 
@@ -132,5 +140,6 @@ export function sanitizeCalendarViewState(raw: unknown): CalendarViewState {
     groupOpenState,
     dayOpenState,
     dayChildOpenState,
+    listFilters: sanitizeListFilters(raw.listFilters),
   };
 }